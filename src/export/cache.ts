@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import type { DuplicateModule, ModuleCollision } from './collisions'
+import type { ExportFileInfo, ModuleFilterStats } from './index'
+import type { ParseDiagnostic } from './parser'
+
+export const EXPORT_CACHE_FILE_NAME = '.wa-export-cache.json'
+export const EXPORT_CACHE_VERSION = 1
+
+export type ExportCacheBundle = {
+    // Bundle output dir, relative to the export root ('' for the root itself)
+    outDir: string
+    modules: ExportFileInfo[]
+    // Reported again when the bundle is reused
+    duplicates?: DuplicateModule[]
+    collisions?: ModuleCollision[]
+    filterStats?: ModuleFilterStats
+    diagnostics?: ParseDiagnostic[]
+}
+
+export type ExportCache = {
+    version: typeof EXPORT_CACHE_VERSION
+    // Hash of the options that change the output (toIa, filters, layout...)
+    fingerprint: string
+    // Bundle key (bundle bytes hash + output layout) -> modules it produced
+    bundles: Record<string, ExportCacheBundle>
+    // Output file (relative, '/' separated) -> sha1 of the written content
+    files: Record<string, string>
+}
+
+export function emptyExportCache(fingerprint: string): ExportCache {
+    return { version: EXPORT_CACHE_VERSION, fingerprint, bundles: {}, files: {} }
+}
+
+// A missing or unreadable cache is not an error: the export just starts from scratch.
+export async function readExportCache(outputDir: string): Promise<ExportCache | null> {
+    try {
+        const raw = await fs.readFile(path.join(outputDir, EXPORT_CACHE_FILE_NAME), 'utf-8')
+        const cache = JSON.parse(raw) as ExportCache
+        if (
+            !cache ||
+            cache.version !== EXPORT_CACHE_VERSION ||
+            typeof cache.bundles !== 'object' ||
+            typeof cache.files !== 'object'
+        ) {
+            return null
+        }
+        return cache
+    } catch {
+        return null
+    }
+}
+
+export async function writeExportCache(outputDir: string, cache: ExportCache): Promise<void> {
+    await fs.mkdir(outputDir, { recursive: true })
+    await fs.writeFile(path.join(outputDir, EXPORT_CACHE_FILE_NAME), JSON.stringify(cache), 'utf-8')
+}
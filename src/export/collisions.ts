@@ -0,0 +1,264 @@
+export type CollisionPolicy = 'suffix' | 'first-wins' | 'last-wins'
+
+export const COLLISION_POLICIES: CollisionPolicy[] = ['suffix', 'first-wins', 'last-wins']
+
+// Different modules that wanted the same output file
+export type ModuleCollision = {
+    // The contested file ('/' separated)
+    file: string
+    moduleName: string
+    policy: CollisionPolicy
+    // Every distinct module (by source hash) with the file it was written to, or null when the
+    // policy dropped it: in rank order with 'suffix', in claim order otherwise
+    modules: Array<{ source: string; hash: string; file: string | null }>
+}
+
+// A module found more than once with byte-identical source, written a single time
+export type DuplicateModule = {
+    file: string
+    moduleName: string
+    // Bundles that contain it, the written copy's first
+    sources: string[]
+    copies: number
+}
+
+// A module already written that has to move to another file ('suffix': a claim that ranks before
+// it took its file)
+export type OutputMove = {
+    token: unknown
+    from: string
+    to: string
+    suffix: string | null
+}
+
+export type OutputClaim =
+    | {
+          action: 'write'
+          file: string
+          suffix: string | null
+          replaces: boolean
+          // To apply before writing `file`, in this order: each file is moved away before it is
+          // overwritten
+          moves?: OutputMove[]
+      }
+    // Identical to the module already written to `file`
+    | { action: 'duplicate'; file: string }
+    // Lost a first-wins/last-wins collision
+    | { action: 'skip'; file: string }
+
+export type OutputClaimRequest = {
+    // Wanted output file
+    file: string
+    moduleName: string
+    // sha1 of the module source: equal hashes are duplicates, different ones collide
+    hash: string
+    source: string
+    // Orders claims that don't arrive in input order (lower = earlier, e.g. the bundle index):
+    // decides first-wins/last-wins and which module gets which suffix. Equal ranks are ordered by
+    // arrival.
+    rank?: number
+    // Identifies the claim in isDropped()
+    token?: unknown
+}
+
+type Variant = {
+    file: string
+    suffix: string | null
+    hash: string
+    source: string
+    rank: number
+    // Arrival order, between equal ranks
+    seq: number
+    token: unknown
+}
+
+function byRank(a: Variant, b: Variant): number {
+    return a.rank - b.rank || a.seq - b.seq
+}
+
+export function resolveCollisionPolicy(policy: string | undefined): CollisionPolicy {
+    if (policy === undefined) return 'suffix'
+    if (!COLLISION_POLICIES.includes(policy as CollisionPolicy)) {
+        throw new Error(
+            `Invalid collisions value: ${String(policy)}. Use ${COLLISION_POLICIES.join(', ')}`
+        )
+    }
+    return policy as CollisionPolicy
+}
+
+function suffixedFile(file: string, suffix: string): string {
+    return file.replace(/\.js$/, '') + suffix + '.js'
+}
+
+// Decides where each exported module goes when several want the same file. Claims are
+// synchronous, so callers that write concurrently still get a stable outcome per arrival order.
+export class OutputNameResolver {
+    // Wanted file -> modules written for it (the file itself and its suffixed variants)
+    private readonly slots = new Map<string, Variant[]>()
+    // Written file -> module in it
+    private readonly owners = new Map<string, Variant>()
+    // 'suffix': wanted file -> the files handed out for it, in rank order
+    private readonly slotFiles = new Map<string, Array<{ file: string; suffix: string | null }>>()
+    // Written module -> its identical copies
+    private readonly duplicatesByVariant = new Map<Variant, DuplicateModule>()
+    private readonly collisionsByFile = new Map<string, ModuleCollision>()
+    private readonly dropped = new Set<unknown>()
+    private nextSeq = 0
+
+    constructor(readonly policy: CollisionPolicy = 'suffix') {}
+
+    claim(req: OutputClaimRequest): OutputClaim {
+        const variants = this.slots.get(req.file) ?? []
+        const same = variants.find((v) => v.hash === req.hash)
+        if (same) {
+            let dup = this.duplicatesByVariant.get(same)
+            if (!dup) {
+                dup = {
+                    file: same.file,
+                    moduleName: req.moduleName,
+                    sources: [same.source],
+                    copies: 1
+                }
+                this.duplicatesByVariant.set(same, dup)
+            }
+            dup.copies++
+            if (!dup.sources.includes(req.source)) dup.sources.push(req.source)
+
+            // The copy written is the one the policy ranks first, whichever arrives first
+            const rank = req.rank ?? 0
+            const first = this.policy === 'last-wins' ? rank > same.rank : rank < same.rank
+            if (!first) return { action: 'duplicate', file: same.file }
+            const collision = this.collisionsByFile.get(req.file)
+            for (const m of collision?.modules ?? []) {
+                if (m.hash === same.hash && m.file === same.file) m.source = req.source
+            }
+            dup.sources = [req.source, ...dup.sources.filter((s) => s !== req.source)]
+            this.dropped.add(same.token)
+            same.token = req.token
+            same.source = req.source
+            same.rank = rank
+            const moves = this.slotFiles.has(req.file) ? this.assignFiles(req.file, same) : []
+            return {
+                action: 'write',
+                file: same.file,
+                suffix: same.suffix,
+                replaces: true,
+                moves
+            }
+        }
+
+        const variant: Variant = {
+            file: req.file,
+            suffix: null,
+            hash: req.hash,
+            source: req.source,
+            rank: req.rank ?? 0,
+            seq: this.nextSeq++,
+            token: req.token
+        }
+        const holder = this.owners.get(req.file)
+        if (!holder) {
+            this.add(req.file, variant)
+            return { action: 'write', file: req.file, suffix: null, replaces: false }
+        }
+
+        let collision = this.collisionsByFile.get(req.file)
+        if (!collision) {
+            collision = {
+                file: req.file,
+                moduleName: req.moduleName,
+                policy: this.policy,
+                modules: [{ source: holder.source, hash: holder.hash, file: holder.file }]
+            }
+            this.collisionsByFile.set(req.file, collision)
+        }
+
+        if (this.policy === 'suffix') {
+            let n = 2
+            while (this.owners.has(suffixedFile(req.file, `_${n}`))) n++
+            const files =
+                this.slotFiles.get(req.file) ??
+                variants.map((v) => ({ file: v.file, suffix: v.suffix }))
+            files.push({ file: suffixedFile(req.file, `_${n}`), suffix: `_${n}` })
+            this.slotFiles.set(req.file, files)
+            this.slots.set(req.file, [...variants, variant])
+            const moves = this.assignFiles(req.file, variant)
+            return {
+                action: 'write',
+                file: variant.file,
+                suffix: variant.suffix,
+                replaces: false,
+                moves
+            }
+        }
+
+        const wins =
+            this.policy === 'first-wins' ? variant.rank < holder.rank : variant.rank >= holder.rank
+        if (!wins) {
+            collision.modules.push({ source: req.source, hash: req.hash, file: null })
+            return { action: 'skip', file: req.file }
+        }
+
+        for (const m of collision.modules) {
+            if (m.file === req.file) m.file = null
+        }
+        this.dropped.add(holder.token)
+        this.slots.set(
+            req.file,
+            variants.filter((v) => v !== holder)
+        )
+        this.add(req.file, variant)
+        collision.modules.push({ source: req.source, hash: req.hash, file: req.file })
+        return { action: 'write', file: req.file, suffix: null, replaces: true }
+    }
+
+    // True when a later claim replaced this one's file (first-wins/last-wins)
+    isDropped(token: unknown): boolean {
+        return this.dropped.has(token)
+    }
+
+    get duplicates(): DuplicateModule[] {
+        return [...this.duplicatesByVariant.values()]
+    }
+
+    get collisions(): ModuleCollision[] {
+        return [...this.collisionsByFile.values()]
+    }
+
+    // 'suffix': hands the slot's files out in rank order, so the outcome doesn't depend on which
+    // bundle finishes first. Returns how the modules already written move; `claimed` is the one
+    // the current claim writes.
+    private assignFiles(slot: string, claimed: Variant): OutputMove[] {
+        const files = this.slotFiles.get(slot)!
+        const ordered = this.slots.get(slot)!.sort(byRank)
+        const moves: OutputMove[] = []
+        ordered.forEach((v, i) => {
+            const target = files[i]
+            if (v !== claimed && v.file !== target.file) {
+                moves.push({ token: v.token, from: v.file, to: target.file, suffix: target.suffix })
+            }
+            v.file = target.file
+            v.suffix = target.suffix
+            this.owners.set(v.file, v)
+            const dup = this.duplicatesByVariant.get(v)
+            if (dup) dup.file = v.file
+        })
+        const collision = this.collisionsByFile.get(slot)!
+        // A module of another slot that holds this slot's file stays listed first
+        const others = collision.modules.filter((m) => !ordered.some((v) => v.hash === m.hash))
+        collision.modules = [
+            ...others,
+            ...ordered.map((v) => ({ source: v.source, hash: v.hash, file: v.file }))
+        ]
+        // Each module moves one file down: the last one first, so no file is overwritten before
+        // it is moved
+        return moves.reverse()
+    }
+
+    private add(slot: string, variant: Variant) {
+        const variants = this.slots.get(slot)
+        if (variants) variants.push(variant)
+        else this.slots.set(slot, [variant])
+        this.owners.set(variant.file, variant)
+    }
+}
@@ -0,0 +1,218 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { COLLISION_POLICIES } from './collisions'
+import { OUTPUT_FORMATS } from './format'
+import type { ExportModulesOptions } from './index'
+import { fileExists } from './util'
+
+// Looked up in the working directory, in this order, when no --config is given
+export const CONFIG_FILE_NAMES = ['wa-export.config.json', 'wa-export.config.js']
+
+export type ExportConfigOptions = Partial<ExportModulesOptions>
+
+// Contents of wa-export.config.{json,js}: exportModules() options, plus named profiles that are
+// applied on top of them
+export type ExportConfig = ExportConfigOptions & {
+    profiles?: Record<string, ExportConfigOptions>
+}
+
+export type LoadExportConfigOptions = {
+    // Explicit config file; otherwise CONFIG_FILE_NAMES are looked up in `cwd`
+    configFile?: string
+    profile?: string
+    cwd?: string
+}
+
+type OptionKind =
+    | 'string'
+    | 'boolean'
+    | 'number'
+    | 'function'
+    | 'signal'
+    | 'string[]'
+    | 'headers'
+    | readonly string[]
+
+// Every ExportModulesOptions key, so a new option can't be forgotten here
+const OPTION_KINDS: Record<keyof ExportModulesOptions, OptionKind> = {
+    inputFile: 'string',
+    outputDir: 'string',
+    format: OUTPUT_FORMATS,
+    toIa: 'boolean',
+    mergeCommonNames: 'boolean',
+    workers: 'number',
+    concurrency: 'number',
+    flat: 'boolean',
+    noSubdirs: 'boolean',
+    moduleNameFilters: 'string[]',
+    moduleNameExcludeFilters: 'string[]',
+    contentFilters: 'string[]',
+    contentExcludeFilters: 'string[]',
+    withDeps: 'boolean',
+    withDependents: 'boolean',
+    depsDepth: 'number',
+    manifest: 'boolean',
+    incremental: 'boolean',
+    sourceMaps: 'boolean',
+    declarations: 'boolean',
+    cacheDir: 'string',
+    offline: 'boolean',
+    retries: 'number',
+    retryDelay: 'number',
+    timeout: 'number',
+    headers: 'headers',
+    proxy: 'string',
+    continueOnError: 'boolean',
+    strict: 'boolean',
+    collisions: COLLISION_POLICIES,
+    // Only from a .js config
+    onProgress: 'function',
+    signal: 'signal'
+}
+
+// Paths in a config file are relative to the file, not to the working directory
+const PATH_OPTIONS = ['inputFile', 'outputDir', 'cacheDir'] as const
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function describeKind(kind: OptionKind): string {
+    if (typeof kind !== 'string') return `one of ${kind.join(', ')}`
+    if (kind === 'string[]') return 'an array of strings'
+    if (kind === 'headers') return 'an object of header names to string values'
+    if (kind === 'signal') return 'an AbortSignal'
+    return `a ${kind}`
+}
+
+function matchesKind(value: unknown, kind: OptionKind): boolean {
+    if (typeof kind !== 'string') return typeof value === 'string' && kind.includes(value)
+    if (kind === 'string[]') {
+        return Array.isArray(value) && value.every((v) => typeof v === 'string')
+    }
+    if (kind === 'headers') {
+        return isPlainObject(value) && Object.values(value).every((v) => typeof v === 'string')
+    }
+    if (kind === 'number') return typeof value === 'number' && Number.isFinite(value)
+    if (kind === 'signal') return value instanceof AbortSignal
+    return typeof value === kind
+}
+
+function validateOptions(
+    raw: Record<string, unknown>,
+    keyPrefix: string,
+    configFile: string
+): ExportConfigOptions {
+    const baseDir = path.dirname(configFile)
+    const out: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(raw)) {
+        if (!Object.prototype.hasOwnProperty.call(OPTION_KINDS, key)) {
+            throw new Error(`Unknown config key "${keyPrefix}${key}" in ${configFile}`)
+        }
+        const kind = OPTION_KINDS[key as keyof ExportModulesOptions]
+        if (value === undefined) continue
+        if (!matchesKind(value, kind)) {
+            throw new Error(
+                `Invalid config value for "${keyPrefix}${key}" in ${configFile}: expected ${describeKind(kind)}, got ${JSON.stringify(value)}`
+            )
+        }
+        out[key] = value
+    }
+    for (const key of PATH_OPTIONS) {
+        if (typeof out[key] === 'string') out[key] = path.resolve(baseDir, out[key] as string)
+    }
+    return out as ExportConfigOptions
+}
+
+async function readConfigFile(configFile: string): Promise<unknown> {
+    if (path.extname(configFile).toLowerCase() === '.js') {
+        const mod = require(configFile)
+        return mod && mod.__esModule ? mod.default : mod
+    }
+    const text = await fs.readFile(configFile, 'utf-8')
+    try {
+        return JSON.parse(text)
+    } catch (e: any) {
+        throw new Error(`Invalid JSON in ${configFile}: ${e?.message || String(e)}`)
+    }
+}
+
+export async function findExportConfigFile(cwd = process.cwd()): Promise<string | null> {
+    for (const name of CONFIG_FILE_NAMES) {
+        const candidate = path.join(cwd, name)
+        if (await fileExists(candidate)) return candidate
+    }
+    return null
+}
+
+// format and toIa pick the output format the same way: when `override` sets either, both are
+// dropped from `options`
+export function withoutFormat(
+    options: ExportConfigOptions,
+    override: ExportConfigOptions
+): ExportConfigOptions {
+    if (override.format === undefined && override.toIa === undefined) return options
+    const { format, toIa, ...rest } = options
+    return rest
+}
+
+// Loads and validates a config file, returning its options with the profile (if any) applied.
+// `file` is null when no config file was given or found.
+export async function loadExportConfig(
+    opts?: LoadExportConfigOptions
+): Promise<{ file: string | null; options: ExportConfigOptions }> {
+    const cwd = opts?.cwd ?? process.cwd()
+    let file: string | null
+    if (opts?.configFile) {
+        file = path.resolve(cwd, opts.configFile)
+        if (!(await fileExists(file))) {
+            throw new Error(`Config file not found: ${file}`)
+        }
+    } else {
+        file = await findExportConfigFile(cwd)
+    }
+
+    if (!file) {
+        if (opts?.profile !== undefined) {
+            throw new Error(
+                `Profile "${opts.profile}" needs a config file (${CONFIG_FILE_NAMES.join(' or ')}, or --config)`
+            )
+        }
+        return { file: null, options: {} }
+    }
+
+    const raw = await readConfigFile(file)
+    if (!isPlainObject(raw)) {
+        throw new Error(`Invalid config file ${file}: expected an object of wa-export options`)
+    }
+
+    const { profiles, ...base } = raw
+    if (profiles !== undefined && !isPlainObject(profiles)) {
+        throw new Error(
+            `Invalid config value for "profiles" in ${file}: expected an object of profile names to options`
+        )
+    }
+    const options = validateOptions(base, '', file)
+
+    const profileMap = (profiles ?? {}) as Record<string, unknown>
+    const profileNames = Object.keys(profileMap)
+    const validatedProfiles: Record<string, ExportConfigOptions> = {}
+    for (const name of profileNames) {
+        const profile = profileMap[name]
+        if (!isPlainObject(profile)) {
+            throw new Error(
+                `Invalid config value for "profiles.${name}" in ${file}: expected an object of wa-export options`
+            )
+        }
+        validatedProfiles[name] = validateOptions(profile, `profiles.${name}.`, file)
+    }
+
+    if (opts?.profile === undefined) return { file, options }
+    if (!Object.prototype.hasOwnProperty.call(validatedProfiles, opts.profile)) {
+        const available = profileNames.length ? profileNames.join(', ') : 'none'
+        throw new Error(`Unknown profile "${opts.profile}" in ${file}. Available: ${available}`)
+    }
+    const profile = validatedProfiles[opts.profile]
+    return { file, options: { ...withoutFormat(options, profile), ...profile } }
+}
@@ -0,0 +1,277 @@
+import path from 'path'
+import { minify } from 'terser'
+
+import { parseBundle, type ParseDiagnostic } from './parser'
+import { isGlobPattern, readBundleTexts } from './sources'
+import { fileExists, sha1Hex } from './util'
+
+export type DiffBundlesOptions = {
+    // Each side: bundle .js, .json list of bundle URLs, a directory/glob of bundles or exported modules
+    oldInput: string
+    newInput: string
+    // Include a unified diff of the normalized source for every changed module
+    unified?: boolean
+    // Context lines around each hunk (default: 3)
+    context?: number
+    concurrency?: number
+}
+
+export type ModuleChange = {
+    name: string
+    linesAdded: number
+    linesRemoved: number
+    oldSize: number
+    newSize: number
+    patch?: string
+}
+
+export type BundleDiffResult = {
+    oldInput: string
+    newInput: string
+    added: string[]
+    removed: string[]
+    // Sorted by size of change (lines added + removed), biggest first
+    changed: ModuleChange[]
+    unchanged: number
+    // Malformed __d calls of either side, left out of the comparison
+    diagnostics: Array<ParseDiagnostic & { source: string }>
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string }
+
+// Above this many LCS cells the middle part is reported as a full replacement.
+const MAX_LCS_CELLS = 4_000_000
+
+async function normalizeModuleSource(source: string): Promise<string> {
+    // Pretty-print without compressing or mangling so minified one-liners diff line by line.
+    try {
+        const out = await minify(source, {
+            compress: false,
+            mangle: false,
+            format: { beautify: true, comments: false, semicolons: true }
+        })
+        if (out.code) return out.code
+    } catch {}
+    return source
+}
+
+// Name -> module source. Identical copies of a module count once, like in the export; other
+// modules with the same name get _2, _3... in input order.
+async function readModuleSources(
+    input: string,
+    concurrency: number,
+    diagnostics: BundleDiffResult['diagnostics']
+): Promise<Map<string, string>> {
+    if (!isGlobPattern(input) && !(await fileExists(input))) {
+        throw new Error(`Input não encontrado: ${input}`)
+    }
+
+    const bundles = await readBundleTexts(input, { concurrency })
+    const out = new Map<string, string>()
+    // Name -> source hashes of its distinct modules
+    const seen = new Map<string, string[]>()
+    let unnamed = 0
+    for (const bundle of bundles) {
+        const found: ParseDiagnostic[] = []
+        for (const call of parseBundle(bundle.text, found)) {
+            const base = call.name || `module_${++unnamed}`
+            const hashes = seen.get(base) ?? []
+            seen.set(base, hashes)
+            const hash = sha1Hex(call.source)
+            if (hashes.includes(hash)) continue
+            hashes.push(hash)
+            out.set(hashes.length === 1 ? base : `${base}_${hashes.length}`, call.source)
+        }
+        diagnostics.push(...found.map((d) => ({ ...d, source: bundle.source })))
+    }
+    return out
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+    let prefix = 0
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+    let suffix = 0
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++
+    }
+
+    const head: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: ' ', line }))
+    const tail: DiffOp[] = a.slice(a.length - suffix).map((line) => ({ type: ' ', line }))
+    const midA = a.slice(prefix, a.length - suffix)
+    const midB = b.slice(prefix, b.length - suffix)
+
+    const n = midA.length
+    const m = midB.length
+    if (n * m > MAX_LCS_CELLS) {
+        return [
+            ...head,
+            ...midA.map((line): DiffOp => ({ type: '-', line })),
+            ...midB.map((line): DiffOp => ({ type: '+', line })),
+            ...tail
+        ]
+    }
+
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..], stored row-major
+    const width = m + 1
+    const lcs = new Uint32Array((n + 1) * width)
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * width + j] =
+                midA[i] === midB[j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+        }
+    }
+
+    const mid: DiffOp[] = []
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+        if (midA[i] === midB[j]) {
+            mid.push({ type: ' ', line: midA[i] })
+            i++
+            j++
+        } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+            mid.push({ type: '-', line: midA[i++] })
+        } else {
+            mid.push({ type: '+', line: midB[j++] })
+        }
+    }
+    while (i < n) mid.push({ type: '-', line: midA[i++] })
+    while (j < m) mid.push({ type: '+', line: midB[j++] })
+
+    return [...head, ...mid, ...tail]
+}
+
+function unifiedPatch(name: string, ops: DiffOp[], context: number): string {
+    const lines = [`--- a/${name}`, `+++ b/${name}`]
+
+    // Line numbers (1-based) of each op on the old and new side
+    const oldNo: number[] = []
+    const newNo: number[] = []
+    let o = 1
+    let n = 1
+    for (const op of ops) {
+        oldNo.push(o)
+        newNo.push(n)
+        if (op.type !== '+') o++
+        if (op.type !== '-') n++
+    }
+
+    const changes: number[] = []
+    ops.forEach((op, i) => {
+        if (op.type !== ' ') changes.push(i)
+    })
+
+    let g = 0
+    while (g < changes.length) {
+        // Changes separated by at most 2 * context unchanged lines share one hunk
+        let last = changes[g]
+        let h = g + 1
+        while (h < changes.length && changes[h] - last - 1 <= context * 2) {
+            last = changes[h]
+            h++
+        }
+
+        const start = Math.max(0, changes[g] - context)
+        const end = Math.min(ops.length, last + context + 1)
+        const hunk = ops.slice(start, end)
+        const oldLen = hunk.filter((op) => op.type !== '+').length
+        const newLen = hunk.filter((op) => op.type !== '-').length
+        const oldStart = oldLen === 0 ? oldNo[start] - 1 : oldNo[start]
+        const newStart = newLen === 0 ? newNo[start] - 1 : newNo[start]
+        lines.push(`@@ -${oldStart},${oldLen} +${newStart},${newLen} @@`)
+        for (const op of hunk) lines.push(`${op.type}${op.line}`)
+        g = h
+    }
+
+    return lines.join('\n') + '\n'
+}
+
+export async function diffBundles(options: DiffBundlesOptions): Promise<BundleDiffResult> {
+    const oldInput = path.resolve(process.cwd(), options.oldInput)
+    const newInput = path.resolve(process.cwd(), options.newInput)
+    const context = options.context ?? 3
+    if (!Number.isInteger(context) || context < 0) {
+        throw new Error(`Invalid context value: ${String(options.context)}`)
+    }
+    const concurrency = options.concurrency ?? 1
+    if (!Number.isFinite(concurrency) || concurrency <= 0) {
+        throw new Error(`Invalid concurrency value: ${String(options.concurrency)}`)
+    }
+
+    const oldDiagnostics: BundleDiffResult['diagnostics'] = []
+    const newDiagnostics: BundleDiffResult['diagnostics'] = []
+    const [oldModules, newModules] = await Promise.all([
+        readModuleSources(oldInput, concurrency, oldDiagnostics),
+        readModuleSources(newInput, concurrency, newDiagnostics)
+    ])
+
+    const added = [...newModules.keys()].filter((name) => !oldModules.has(name)).sort()
+    const removed = [...oldModules.keys()].filter((name) => !newModules.has(name)).sort()
+    const changed: ModuleChange[] = []
+    let unchanged = 0
+
+    for (const [name, oldSource] of oldModules) {
+        const newSource = newModules.get(name)
+        if (newSource === undefined) continue
+        if (oldSource === newSource) {
+            unchanged++
+            continue
+        }
+
+        const oldNorm = await normalizeModuleSource(oldSource)
+        const newNorm = await normalizeModuleSource(newSource)
+        if (oldNorm === newNorm) {
+            unchanged++
+            continue
+        }
+
+        const ops = diffLines(oldNorm.split('\n'), newNorm.split('\n'))
+        const change: ModuleChange = {
+            name,
+            linesAdded: ops.filter((op) => op.type === '+').length,
+            linesRemoved: ops.filter((op) => op.type === '-').length,
+            oldSize: Buffer.byteLength(oldSource),
+            newSize: Buffer.byteLength(newSource)
+        }
+        if (options.unified) {
+            change.patch = unifiedPatch(name, ops, context)
+        }
+        changed.push(change)
+    }
+
+    changed.sort(
+        (a, b) =>
+            b.linesAdded + b.linesRemoved - (a.linesAdded + a.linesRemoved) ||
+            a.name.localeCompare(b.name)
+    )
+
+    const diagnostics = [...oldDiagnostics, ...newDiagnostics]
+    return { oldInput, newInput, added, removed, changed, unchanged, diagnostics }
+}
+
+export function formatBundleDiff(result: BundleDiffResult): string {
+    const lines: string[] = []
+    lines.push(`Added (${result.added.length}):`)
+    for (const name of result.added) lines.push(`  + ${name}`)
+    lines.push(`Removed (${result.removed.length}):`)
+    for (const name of result.removed) lines.push(`  - ${name}`)
+    lines.push(`Changed (${result.changed.length}):`)
+    for (const c of result.changed) {
+        lines.push(`  ~ ${c.name} (+${c.linesAdded} -${c.linesRemoved})`)
+    }
+    lines.push(`Unchanged: ${result.unchanged}`)
+
+    const patches = result.changed.filter((c) => c.patch)
+    if (patches.length > 0) {
+        lines.push('')
+        for (const c of patches) lines.push(c.patch!.trimEnd())
+    }
+
+    return lines.join('\n') + '\n'
+}
@@ -0,0 +1,274 @@
+import { parse } from 'acorn'
+
+export const MODULE_DECLARATIONS_FILE_NAME = 'modules.d.ts'
+
+export type ExportParam = { name: string; optional: boolean; rest: boolean }
+
+export type ExportShape =
+    | { kind: 'function'; params: ExportParam[] }
+    | { kind: 'class'; params: ExportParam[] }
+    | { kind: 'value'; type: string }
+    | { kind: 'object'; properties: Record<string, ExportShape> }
+    | { kind: 'unknown' }
+
+export type ModuleExports = {
+    // Value assigned to module.exports (replaces the exports object)
+    whole: ExportShape | null
+    // Properties assigned on the exports object
+    named: Record<string, ExportShape>
+}
+
+const UNKNOWN: ExportShape = { kind: 'unknown' }
+// Nested object literals are described up to this depth, deeper ones become any
+const MAX_OBJECT_DEPTH = 2
+
+function isFunctionNode(node: any): boolean {
+    return node?.type === 'FunctionExpression' || node?.type === 'ArrowFunctionExpression'
+}
+
+function propertyName(node: any, computed: boolean): string | null {
+    if (!computed && node.type === 'Identifier') return node.name
+    if (
+        node.type === 'Literal' &&
+        (typeof node.value === 'string' || typeof node.value === 'number')
+    ) {
+        return String(node.value)
+    }
+    return null
+}
+
+function forEachChild(node: any, visit: (child: any) => void) {
+    for (const key of Object.keys(node)) {
+        const value = node[key]
+        if (Array.isArray(value)) {
+            for (const item of value) {
+                if (item && typeof item.type === 'string') visit(item)
+            }
+        } else if (value && typeof value.type === 'string') {
+            visit(value)
+        }
+    }
+}
+
+function paramsOf(params: any[]): ExportParam[] {
+    const used = new Set<string>()
+    return params.map((p, idx) => {
+        const rest = p.type === 'RestElement'
+        const target = rest ? p.argument : p
+        const optional = target.type === 'AssignmentPattern'
+        const id = optional ? target.left : target
+        let name = id.type === 'Identifier' ? id.name : `arg${idx}`
+        while (used.has(name)) name = `${name}_`
+        used.add(name)
+        return { name, optional, rest }
+    })
+}
+
+function literalType(value: unknown, node: any): string {
+    if (node.regex) return 'RegExp'
+    if (node.bigint !== undefined) return 'bigint'
+    if (value === null) return 'null'
+    return typeof value
+}
+
+function createShapeResolver(locals: Map<string, any>) {
+    const resolving = new Set<string>()
+
+    const shapeOf = (node: any, depth = 0): ExportShape => {
+        switch (node?.type) {
+            case 'FunctionExpression':
+            case 'ArrowFunctionExpression':
+            case 'FunctionDeclaration':
+                return { kind: 'function', params: paramsOf(node.params) }
+            case 'ClassExpression':
+            case 'ClassDeclaration': {
+                const ctor = node.body.body.find((m: any) => m.kind === 'constructor')
+                return { kind: 'class', params: ctor ? paramsOf(ctor.value.params) : [] }
+            }
+            case 'Literal':
+                return { kind: 'value', type: literalType(node.value, node) }
+            case 'TemplateLiteral':
+                return { kind: 'value', type: 'string' }
+            case 'ArrayExpression':
+                return { kind: 'value', type: 'any[]' }
+            case 'UnaryExpression':
+                if (node.operator === '!') return { kind: 'value', type: 'boolean' }
+                if (node.operator === 'void') return { kind: 'value', type: 'undefined' }
+                if (node.operator === 'typeof') return { kind: 'value', type: 'string' }
+                if (node.operator === '-' || node.operator === '+' || node.operator === '~') {
+                    return { kind: 'value', type: 'number' }
+                }
+                return UNKNOWN
+            case 'ObjectExpression': {
+                if (depth >= MAX_OBJECT_DEPTH) return UNKNOWN
+                const properties: Record<string, ExportShape> = {}
+                for (const prop of node.properties) {
+                    if (prop.type !== 'Property' || prop.kind !== 'init') continue
+                    const name = propertyName(prop.key, prop.computed)
+                    if (name !== null) properties[name] = shapeOf(prop.value, depth + 1)
+                }
+                return { kind: 'object', properties }
+            }
+            case 'Identifier': {
+                if (node.name === 'undefined') return { kind: 'value', type: 'undefined' }
+                const decl = locals.get(node.name)
+                if (!decl || resolving.has(node.name)) return UNKNOWN
+                resolving.add(node.name)
+                try {
+                    return shapeOf(decl, depth)
+                } finally {
+                    resolving.delete(node.name)
+                }
+            }
+            default:
+                return UNKNOWN
+        }
+    }
+
+    return shapeOf
+}
+
+// Declarations in the factory's own scope: function/class declarations and initialized vars.
+function collectLocals(body: any): Map<string, any> {
+    const locals = new Map<string, any>()
+    const statements = body.type === 'BlockStatement' ? body.body : []
+    for (const stmt of statements) {
+        if ((stmt.type === 'FunctionDeclaration' || stmt.type === 'ClassDeclaration') && stmt.id) {
+            locals.set(stmt.id.name, stmt)
+        } else if (stmt.type === 'VariableDeclaration') {
+            for (const d of stmt.declarations) {
+                if (d.id.type === 'Identifier' && d.init) locals.set(d.id.name, d.init)
+            }
+        }
+    }
+    return locals
+}
+
+// Statically discovers what a module factory exports: assignments to the exports parameter
+// (g.Foo = ...) and to module.exports (e.exports = ...). Null if the module doesn't parse.
+export function discoverModuleExports(moduleSource: string): ModuleExports | null {
+    let program: any
+    try {
+        program = parse(moduleSource, { ecmaVersion: 'latest', sourceType: 'script' })
+    } catch {
+        return null
+    }
+
+    const call = program.body[0]?.expression
+    if (call?.type !== 'CallExpression') return null
+    const factory = call.arguments.find(isFunctionNode)
+    if (!factory) return null
+
+    const params: Array<string | null> = factory.params.map((p: any) =>
+        p.type === 'Identifier' ? p.name : null
+    )
+    // Same parameter the loader passes the exports object to (see makeFactoryFromFunctionExpression)
+    const exportsParam = params.length <= 6 ? params[5] : params[6]
+
+    const shapeOf = createShapeResolver(collectLocals(factory.body))
+    const out: ModuleExports = { whole: null, named: {} }
+
+    const visit = (node: any) => {
+        if (node.type === 'AssignmentExpression' && node.operator === '=') {
+            const left = node.left
+            if (left.type === 'MemberExpression' && left.object.type === 'Identifier') {
+                const name = propertyName(left.property, left.computed)
+                const target = left.object.name
+                if (name !== null && target === exportsParam) {
+                    const shape = shapeOf(node.right)
+                    // A later "x.Foo = somethingOpaque" does not erase what we already know
+                    if (shape.kind !== 'unknown' || !(name in out.named)) out.named[name] = shape
+                } else if (name === 'exports' && params.includes(target)) {
+                    out.whole = shapeOf(node.right)
+                }
+            }
+        }
+        forEachChild(node, visit)
+    }
+    visit(factory.body)
+
+    return out
+}
+
+function isIdentifierName(name: string): boolean {
+    return /^[A-Za-z_$][\w$]*$/.test(name)
+}
+
+function quote(s: string): string {
+    return `'${s.replace(/[\\']/g, '\\$&')}'`
+}
+
+function propertyKey(name: string): string {
+    return isIdentifierName(name) ? name : quote(name)
+}
+
+function renderParams(params: ExportParam[]): string {
+    return params
+        .map((p) => (p.rest ? `...${p.name}: any[]` : `${p.name}${p.optional ? '?' : ''}: any`))
+        .join(', ')
+}
+
+function renderProperties(properties: Record<string, ExportShape>, indent: string): string {
+    const names = Object.keys(properties)
+    if (names.length === 0) return '{}'
+    const inner = indent + '    '
+    const lines = names.map((name) => {
+        return `${inner}${propertyKey(name)}: ${renderShape(properties[name], inner)}`
+    })
+    return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+export function renderShape(shape: ExportShape, indent = ''): string {
+    switch (shape.kind) {
+        case 'function':
+            return `(${renderParams(shape.params)}) => any`
+        case 'class':
+            return `new (${renderParams(shape.params)}) => any`
+        case 'value':
+            return shape.type
+        case 'object':
+            return renderProperties(shape.properties, indent)
+        default:
+            return 'any'
+    }
+}
+
+// The type ModuleRegistry.require returns for the module: module.exports when assigned, the
+// default export when there is one (the registry unwraps it), otherwise the exports object.
+export function moduleExportsType(exports: ModuleExports | null): string {
+    if (!exports) return 'any'
+    if (exports.whole) return renderShape(exports.whole)
+    if ('default' in exports.named) return renderShape(exports.named.default)
+    if (Object.keys(exports.named).length === 0) return 'any'
+    return renderProperties(exports.named, '')
+}
+
+// Contents of the .d.ts written next to an exported module.
+export function moduleDeclaration(moduleName: string, moduleSource: string): string {
+    const type = moduleExportsType(discoverModuleExports(moduleSource))
+    const label = moduleName ? JSON.stringify(moduleName) : 'this module'
+    return [
+        `// Exports of ${label} (generated by wa-export)`,
+        `export type Exports = ${type}`,
+        ''
+    ].join('\n')
+}
+
+// modules.d.ts: module name -> exports type, pointing at each module's own .d.ts. `file` is the
+// module's .js relative to modules.d.ts; with repeated names the first one wins, like
+// ModuleRegistry.register.
+export function moduleDeclarationsIndex(modules: Array<{ name: string; file: string }>): string {
+    const lines = [
+        '// Module name -> exports of every exported module (generated by wa-export)',
+        'export interface ExportedModules {'
+    ]
+    const seen = new Set<string>()
+    for (const { name, file } of modules) {
+        if (!name || seen.has(name)) continue
+        seen.add(name)
+        const spec = './' + file.replace(/\.js$/, '')
+        lines.push(`    ${propertyKey(name)}: import(${quote(spec)}).Exports`)
+    }
+    lines.push('}', '')
+    return lines.join('\n')
+}
@@ -0,0 +1,143 @@
+import { minify } from 'terser'
+
+import { codeChars, scanCode } from './parser'
+import {
+    decodeMappings,
+    identityMappings,
+    remapInsertedLineBreaks,
+    type DecodedMappings
+} from './sourcemap'
+
+// raw: the module as found in the bundle, ia: terser-compressed with line breaks for lower
+// token usage, pretty: fully re-printed with consistent indentation for human review
+export type OutputFormat = 'raw' | 'ia' | 'pretty'
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['raw', 'ia', 'pretty']
+
+export type RenderedModule = {
+    code: string
+    // Module-relative source map data, only when requested
+    mappings: DecodedMappings | null
+    names: string[]
+}
+
+const IA_BREAK_CHARS = codeChars('{};')
+
+// Offsets after which the ia format breaks the line: after ; and { followed by more code and after
+// } unless a , ; ) or ] follows. Strings, template text, regexes and comments are left alone.
+export function iaLineBreakOffsets(code: string): number[] {
+    const out: number[] = []
+    scanCode(code, 0, IA_BREAK_CHARS, (ch, i) => {
+        const next = i + 1 < code.length ? code[i + 1] : ''
+        if (ch === '}') {
+            if (next && /[^\s,;)\]]/.test(next)) out.push(i)
+        } else if (next && /\S/.test(next)) {
+            out.push(i)
+        }
+        return false
+    })
+    return out
+}
+
+function insertLineBreaks(text: string, offsets: number[]): string {
+    let out = ''
+    let from = 0
+    for (const offset of offsets) {
+        out += text.slice(from, offset + 1) + '\n'
+        from = offset + 1
+    }
+    return out + text.slice(from)
+}
+
+function formatForIA(
+    minified: string,
+    mappings: DecodedMappings | null,
+    names: string[]
+): RenderedModule {
+    const offsets = iaLineBreakOffsets(minified)
+    return {
+        code: insertLineBreaks(minified, offsets),
+        mappings: mappings && remapInsertedLineBreaks(mappings, minified, offsets),
+        names
+    }
+}
+
+async function toIA(code: string, sourceMap: boolean): Promise<RenderedModule> {
+    try {
+        const out = await minify(code, {
+            compress: {
+                dead_code: true,
+                drop_console: false,
+                drop_debugger: true,
+                evaluate: true,
+                booleans: true,
+                conditionals: true,
+                unused: true,
+                sequences: false,
+                join_vars: false,
+                collapse_vars: false,
+                reduce_vars: false,
+                inline: false,
+                loops: false,
+                if_return: false
+            },
+            mangle: false,
+            format: {
+                comments: false,
+                semicolons: true,
+                beautify: false
+            },
+            sourceMap: sourceMap ? { asObject: true } : false
+        })
+        const min = out.code || ''
+        if (min) {
+            // asObject: terser returns the map as an object, not a JSON string
+            const map = sourceMap && typeof out.map === 'object' ? out.map : null
+            return formatForIA(min, map && decodeMappings(map.mappings), [...(map?.names ?? [])])
+        }
+    } catch {}
+    return formatForIA(code, sourceMap ? identityMappings(code) : null, [])
+}
+
+async function toPretty(code: string, sourceMap: boolean): Promise<RenderedModule> {
+    try {
+        const out = await minify(code, {
+            compress: false,
+            mangle: false,
+            format: { beautify: true, indent_level: 4, comments: 'all', semicolons: true },
+            sourceMap: sourceMap ? { asObject: true } : false
+        })
+        if (out.code) {
+            const map = sourceMap && typeof out.map === 'object' ? out.map : null
+            return {
+                code: out.code,
+                mappings: map && decodeMappings(map.mappings),
+                names: [...(map?.names ?? [])]
+            }
+        }
+    } catch {}
+    // Not parseable on its own: keep the module as it is
+    return { code, mappings: sourceMap ? identityMappings(code) : null, names: [] }
+}
+
+export async function renderModule(
+    code: string,
+    format: OutputFormat,
+    sourceMap = false
+): Promise<RenderedModule> {
+    if (format === 'ia') return await toIA(code, sourceMap)
+    if (format === 'pretty') return await toPretty(code, sourceMap)
+    return { code, mappings: sourceMap ? identityMappings(code) : null, names: [] }
+}
+
+// Resolves the format option, keeping the older toIa flag as an alias of 'ia'.
+export function resolveOutputFormat(format: OutputFormat | undefined, toIa: boolean): OutputFormat {
+    if (format === undefined) return toIa ? 'ia' : 'raw'
+    if (!OUTPUT_FORMATS.includes(format)) {
+        throw new Error(`Invalid format value: ${String(format)}. Use raw, ia or pretty`)
+    }
+    if (toIa && format !== 'ia') {
+        throw new Error(`toIa conflicts with format: ${format}`)
+    }
+    return format
+}
@@ -0,0 +1,269 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { MANIFEST_FILE_NAME, readManifest } from './manifest'
+import { parseBundle, type ParseDiagnostic } from './parser'
+import { isGlobPattern, readBundleTexts } from './sources'
+import { fileExists } from './util'
+
+export type DependencyGraphFormat = 'json' | 'dot' | 'mermaid'
+
+export type DependencyGraph = {
+    root: string | null
+    depth: number | null
+    // Module name -> dependency names, in declaration order
+    modules: Record<string, string[]>
+    // Dependencies referenced by some module but not defined in any processed bundle
+    missing: string[]
+    // Malformed __d calls whose module is not in the graph (buildDependencyGraph only)
+    diagnostics?: Array<ParseDiagnostic & { source: string }>
+}
+
+export type BuildDependencyGraphOptions = {
+    // .js bundle, .json URL list, a directory/glob of bundles or modules, or an export manifest.json
+    inputFile: string
+    root?: string
+    depth?: number
+    concurrency?: number
+}
+
+export type ModuleDeps = { name: string; deps: string[] }
+
+export function collectModuleDeps(
+    bundleContent: string,
+    diagnostics?: ParseDiagnostic[]
+): ModuleDeps[] {
+    const out: ModuleDeps[] = []
+    for (const { name, deps } of parseBundle(bundleContent, diagnostics)) {
+        if (name) out.push({ name, deps })
+    }
+    return out
+}
+
+export function dependencyGraphFromModules(
+    modules: Iterable<ModuleDeps>,
+    opts?: { root?: string; depth?: number }
+): DependencyGraph {
+    // The same module may be defined by several bundles: merge their dependency lists.
+    const all = new Map<string, string[]>()
+    for (const { name, deps } of modules) {
+        const existing = all.get(name)
+        if (!existing) {
+            all.set(name, [...new Set(deps)])
+            continue
+        }
+        for (const d of deps) {
+            if (!existing.includes(d)) existing.push(d)
+        }
+    }
+
+    const depth = opts?.depth ?? null
+    if (depth !== null && (!Number.isInteger(depth) || depth < 0)) {
+        throw new Error(`Invalid depth value: ${String(depth)}`)
+    }
+
+    const root = opts?.root ?? null
+    let included: Set<string>
+    if (root === null) {
+        included = new Set(all.keys())
+        for (const deps of all.values()) {
+            for (const d of deps) included.add(d)
+        }
+    } else {
+        if (!all.has(root)) {
+            throw new Error(`Module not found in graph: ${root}`)
+        }
+        included = new Set([root])
+        let frontier = [root]
+        for (let level = 0; frontier.length > 0 && (depth === null || level < depth); level++) {
+            const next: string[] = []
+            for (const name of frontier) {
+                for (const d of all.get(name) || []) {
+                    if (included.has(d)) continue
+                    included.add(d)
+                    next.push(d)
+                }
+            }
+            frontier = next
+        }
+    }
+
+    const out: Record<string, string[]> = {}
+    const missing: string[] = []
+    for (const name of included) {
+        const deps = all.get(name)
+        if (!deps) missing.push(name)
+        out[name] = (deps || []).filter((d) => included.has(d))
+    }
+
+    return { root, depth, modules: out, missing }
+}
+
+export type ExpandModuleSelectionOptions = {
+    // Follow dependency arrays (what the selected modules require)
+    deps?: boolean
+    // Follow them backwards (modules that require the selected ones)
+    dependents?: boolean
+    // Levels to follow from the seeds (default: unlimited)
+    depth?: number
+}
+
+// Grows a set of module names along the dependency graph. `missing` lists dependencies reached
+// that no processed bundle defines.
+export function expandModuleSelection(
+    modules: Iterable<ModuleDeps>,
+    seeds: Iterable<string>,
+    opts: ExpandModuleSelectionOptions
+): { selected: Set<string>; missing: string[] } {
+    const depth = opts.depth ?? null
+    if (depth !== null && (!Number.isInteger(depth) || depth < 0)) {
+        throw new Error(`Invalid depth value: ${String(depth)}`)
+    }
+
+    const deps = new Map<string, Set<string>>()
+    const dependents = new Map<string, Set<string>>()
+    for (const m of modules) {
+        const own = deps.get(m.name) ?? new Set<string>()
+        deps.set(m.name, own)
+        for (const d of m.deps) {
+            own.add(d)
+            const users = dependents.get(d) ?? new Set<string>()
+            users.add(m.name)
+            dependents.set(d, users)
+        }
+    }
+
+    const selected = new Set(seeds)
+    const walk = (edges: Map<string, Set<string>>) => {
+        const seen = new Set(seeds)
+        let frontier = [...seen]
+        for (let level = 0; frontier.length > 0 && (depth === null || level < depth); level++) {
+            const next: string[] = []
+            for (const name of frontier) {
+                for (const other of edges.get(name) ?? []) {
+                    if (seen.has(other)) continue
+                    seen.add(other)
+                    selected.add(other)
+                    next.push(other)
+                }
+            }
+            frontier = next
+        }
+    }
+    if (opts.deps) walk(deps)
+    if (opts.dependents) walk(dependents)
+
+    const missing = [...selected].filter((name) => !deps.has(name))
+    return { selected, missing }
+}
+
+async function readInputModuleDeps(
+    inputFile: string,
+    concurrency: number,
+    diagnostics: Array<ParseDiagnostic & { source: string }>
+): Promise<ModuleDeps[]> {
+    const stat = await fs.stat(inputFile).catch(() => null)
+    if (!stat && !isGlobPattern(inputFile)) {
+        throw new Error(`Input não encontrado: ${inputFile}`)
+    }
+
+    const ext = path.extname(inputFile).toLowerCase()
+    let isManifest = false
+    if (stat && stat.isDirectory()) {
+        isManifest = await fileExists(path.join(inputFile, MANIFEST_FILE_NAME))
+    } else if (stat && ext === '.json') {
+        isManifest = await looksLikeManifest(inputFile)
+    }
+    if (isManifest) {
+        const { manifest } = await readManifest(inputFile)
+        return manifest.modules.filter((m) => m.name).map((m) => ({ name: m.name, deps: m.deps }))
+    }
+
+    const bundles = await readBundleTexts(inputFile, { concurrency })
+    return bundles.flatMap((b) => {
+        const found: ParseDiagnostic[] = []
+        const modules = collectModuleDeps(b.text, found)
+        diagnostics.push(...found.map((d) => ({ ...d, source: b.source })))
+        return modules
+    })
+}
+
+async function looksLikeManifest(jsonFile: string): Promise<boolean> {
+    try {
+        const parsed = JSON.parse(await fs.readFile(jsonFile, 'utf-8'))
+        return !!parsed && !Array.isArray(parsed) && Array.isArray(parsed.modules)
+    } catch {
+        return false
+    }
+}
+
+export async function buildDependencyGraph(
+    options: BuildDependencyGraphOptions
+): Promise<DependencyGraph> {
+    const inputFile = path.resolve(process.cwd(), options.inputFile)
+    const concurrency = options.concurrency ?? 1
+    if (!Number.isFinite(concurrency) || concurrency <= 0) {
+        throw new Error(`Invalid concurrency value: ${String(options.concurrency)}`)
+    }
+
+    const diagnostics: Array<ParseDiagnostic & { source: string }> = []
+    const modules = await readInputModuleDeps(inputFile, concurrency, diagnostics)
+    const graph = dependencyGraphFromModules(modules, { root: options.root, depth: options.depth })
+    return { ...graph, diagnostics }
+}
+
+function dotQuote(s: string): string {
+    return `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function mermaidLabel(s: string): string {
+    return `"${s.replace(/"/g, '#quot;')}"`
+}
+
+export function formatDependencyGraph(
+    graph: DependencyGraph,
+    format: DependencyGraphFormat
+): string {
+    const names = Object.keys(graph.modules)
+
+    if (format === 'json') {
+        return JSON.stringify(graph, null, 2) + '\n'
+    }
+
+    if (format === 'dot') {
+        const missing = new Set(graph.missing)
+        const lines = ['digraph modules {', '    rankdir=LR;', '    node [shape=box];']
+        for (const name of names) {
+            const styles = [
+                name === graph.root ? 'bold' : '',
+                missing.has(name) ? 'dashed' : ''
+            ].filter(Boolean)
+            const attrs = styles.length ? ` [style="${styles.join(',')}"]` : ''
+            lines.push(`    ${dotQuote(name)}${attrs};`)
+        }
+        for (const name of names) {
+            for (const dep of graph.modules[name]) {
+                lines.push(`    ${dotQuote(name)} -> ${dotQuote(dep)};`)
+            }
+        }
+        lines.push('}')
+        return lines.join('\n') + '\n'
+    }
+
+    if (format === 'mermaid') {
+        // Mermaid ids must be simple identifiers, so names go into labels.
+        const ids = new Map(names.map((name, idx) => [name, `m${idx}`]))
+        const lines = ['graph LR']
+        for (const name of names) {
+            lines.push(`    ${ids.get(name)}[${mermaidLabel(name)}]`)
+        }
+        for (const name of names) {
+            for (const dep of graph.modules[name]) {
+                lines.push(`    ${ids.get(name)} --> ${ids.get(dep)}`)
+            }
+        }
+        return lines.join('\n') + '\n'
+    }
+
+    throw new Error(`Unsupported graph format: ${String(format)}. Use json, dot or mermaid`)
+}
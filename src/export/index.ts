@@ -1,11 +1,62 @@
 #!/usr/bin/env node
 import { createHash } from 'crypto'
-import { promises as fs } from 'fs'
+import { createReadStream, promises as fs } from 'fs'
 import os from 'os'
 import path from 'path'
-import { minify } from 'terser'
+import { pathToFileURL } from 'url'
 import { Worker, isMainThread } from 'worker_threads'
 
+import {
+    emptyExportCache,
+    readExportCache,
+    writeExportCache,
+    type ExportCacheBundle
+} from './cache'
+import {
+    COLLISION_POLICIES,
+    OutputNameResolver,
+    resolveCollisionPolicy,
+    type CollisionPolicy,
+    type DuplicateModule,
+    type ModuleCollision,
+    type OutputMove
+} from './collisions'
+import { CONFIG_FILE_NAMES, loadExportConfig, withoutFormat } from './config'
+import { diffBundles, formatBundleDiff } from './diff'
+import { MODULE_DECLARATIONS_FILE_NAME, moduleDeclaration, moduleDeclarationsIndex } from './dts'
+import {
+    buildDependencyGraph,
+    expandModuleSelection,
+    formatDependencyGraph,
+    type DependencyGraphFormat,
+    type ModuleDeps
+} from './graph'
+import {
+    MANIFEST_VERSION,
+    toManifestModules,
+    writeManifest,
+    type ExportManifestModule
+} from './manifest'
+import {
+    formatParseDiagnostic,
+    parseBundle,
+    type ParseDiagnostic,
+    type ParsedModule
+} from './parser'
+import { parseBundleStream, type BundleChunks } from './scanner'
+import { buildSourceMap, shiftOriginalPositions, type SourceMap } from './sourcemap'
+import { fetchBundle, resolveLocalBundlePath } from './fetch'
+import { OUTPUT_FORMATS, renderModule, resolveOutputFormat, type OutputFormat } from './format'
+import {
+    globBaseDir,
+    isGlobPattern,
+    listInputBundleFiles,
+    readHarBundles,
+    readUrlList
+} from './sources'
+import { fileExists, runWithConcurrency, sha1Hex } from './util'
+import { ChangeWatcher, diffModuleFiles, type ModuleFileChanges, type WatchTargets } from './watch'
+
 function getArgValue(args: string[], flagName: string): string | null {
     const idx = args.indexOf(flagName)
     if (idx !== -1) {
@@ -47,8 +98,29 @@ function getArgValues(args: string[], flagName: string): string[] {
     return values
 }
 
-function getPositionals(args: string[]): string[] {
-    const flagsWithValue = new Set(['--concurrency', '--workers', '--module-filter'])
+function getPositionals(
+    args: string[],
+    flagsWithValue = new Set([
+        '--concurrency',
+        '--workers',
+        '--module-filter',
+        '--exclude-filter',
+        '--content-filter',
+        '--content-exclude',
+        '--format',
+        '--cache-dir',
+        '--retries',
+        '--retry-delay',
+        '--timeout',
+        '--header',
+        '--proxy',
+        '--collisions',
+        '--deps-depth',
+        '--config',
+        '--profile',
+        '--time-limit'
+    ])
+): string[] {
     const positionals: string[] = []
 
     for (let i = 0; i < args.length; i++) {
@@ -67,8 +139,17 @@ function getPositionals(args: string[]): string[] {
     return positionals
 }
 
-function parseModuleNameFilterPatterns(args: string[]): string[] {
-    return normalizeModuleNameFilterPatterns(getArgValues(args, '--module-filter'))
+function parseModuleFilterPatterns(args: string[]): ModuleFilterPatterns {
+    return {
+        moduleNameFilters: normalizeModuleNameFilterPatterns(getArgValues(args, '--module-filter')),
+        moduleNameExcludeFilters: normalizeModuleNameFilterPatterns(
+            getArgValues(args, '--exclude-filter')
+        ),
+        contentFilters: normalizeModuleNameFilterPatterns(getArgValues(args, '--content-filter')),
+        contentExcludeFilters: normalizeModuleNameFilterPatterns(
+            getArgValues(args, '--content-exclude')
+        )
+    }
 }
 
 function normalizeModuleNameFilterPatterns(filters: string[] | undefined): string[] {
@@ -102,31 +183,109 @@ function compileFilterRegex(pattern: string): RegExp {
     return new RegExp(body, flags)
 }
 
-function compileModuleNameFilters(rawFilters: string[]): RegExp[] {
+function compileModuleNameFilters(rawFilters: string[], flagName = '--module-filter'): RegExp[] {
     return rawFilters.map((raw) => {
         try {
             return compileFilterRegex(raw)
         } catch (e: any) {
             const msg = e && typeof e.message === 'string' ? e.message : String(e)
-            throw new Error(`Invalid --module-filter regex '${raw}': ${msg}`)
+            throw new Error(`Invalid ${flagName} regex '${raw}': ${msg}`)
         }
     })
 }
 
-function moduleNameMatchesFilters(rawName: string, filters: RegExp[]): boolean {
-    if (filters.length === 0) return true
-    if (!rawName) return false
+// Module selection: the name must match one of moduleNameFilters and the source one of
+// contentFilters (when given), and neither may match an exclude filter
+type ModuleFilterPatterns = {
+    moduleNameFilters: string[]
+    moduleNameExcludeFilters: string[]
+    contentFilters: string[]
+    contentExcludeFilters: string[]
+}
+
+type ModuleFilters = {
+    names: RegExp[]
+    excludeNames: RegExp[]
+    content: RegExp[]
+    excludeContent: RegExp[]
+}
+
+export type ModuleFilterStats = {
+    // Modules the filters selected for export (before identical copies are merged)
+    matched: number
+    // Modules the include filters selected but an exclude filter removed
+    excluded: number
+    // Modules exported only because they are in `moduleNames` (withDeps / withDependents)
+    dependencies: number
+}
+
+function normalizeModuleFilterPatterns(
+    opts: Partial<ModuleFilterPatterns> | undefined
+): ModuleFilterPatterns {
+    return {
+        moduleNameFilters: normalizeModuleNameFilterPatterns(opts?.moduleNameFilters),
+        moduleNameExcludeFilters: normalizeModuleNameFilterPatterns(opts?.moduleNameExcludeFilters),
+        contentFilters: normalizeModuleNameFilterPatterns(opts?.contentFilters),
+        contentExcludeFilters: normalizeModuleNameFilterPatterns(opts?.contentExcludeFilters)
+    }
+}
+
+function compileModuleFilters(patterns: ModuleFilterPatterns): ModuleFilters {
+    return {
+        names: compileModuleNameFilters(patterns.moduleNameFilters),
+        excludeNames: compileModuleNameFilters(
+            patterns.moduleNameExcludeFilters,
+            '--exclude-filter'
+        ),
+        content: compileModuleNameFilters(patterns.contentFilters, '--content-filter'),
+        excludeContent: compileModuleNameFilters(
+            patterns.contentExcludeFilters,
+            '--content-exclude'
+        )
+    }
+}
+
+function hasModuleFilters(filters: ModuleFilters): boolean {
+    return (
+        filters.names.length > 0 ||
+        filters.excludeNames.length > 0 ||
+        filters.content.length > 0 ||
+        filters.excludeContent.length > 0
+    )
+}
+
+function matchesAnyFilter(text: string, filters: RegExp[]): boolean {
     return filters.some((filter) => {
         filter.lastIndex = 0
-        return filter.test(rawName)
+        return filter.test(text)
     })
 }
 
-function noModulesMessage(filters: RegExp[]): string {
-    if (filters.length === 0) {
+function moduleNameMatchesFilters(rawName: string, filters: RegExp[]): boolean {
+    if (filters.length === 0) return true
+    if (!rawName) return false
+    return matchesAnyFilter(rawName, filters)
+}
+
+// 'excluded' when the include filters select the module but an exclude filter removes it,
+// null when the include filters don't select it
+function applyModuleFilters(
+    filters: ModuleFilters,
+    rawName: string,
+    source: string
+): 'matched' | 'excluded' | null {
+    if (!moduleNameMatchesFilters(rawName, filters.names)) return null
+    if (filters.content.length > 0 && !matchesAnyFilter(source, filters.content)) return null
+    if (rawName && matchesAnyFilter(rawName, filters.excludeNames)) return 'excluded'
+    if (matchesAnyFilter(source, filters.excludeContent)) return 'excluded'
+    return 'matched'
+}
+
+function noModulesMessage(filters: ModuleFilters): string {
+    if (!hasModuleFilters(filters)) {
         return 'No module found (marker __d( not found).'
     }
-    return 'No module found (marker __d( not found or no module matched --module-filter).'
+    return 'No module found (marker __d( not found or no module matched the module filters).'
 }
 
 function normalizeForMerge(name: string): string {
@@ -251,23 +410,94 @@ function pickMergeDir(
     return null
 }
 
+function parseNonNegativeNumberFlag(args: string[], flagName: string): number | undefined {
+    const raw = getArgValue(args, flagName)
+    if (raw === null) return undefined
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid ${flagName} value: ${raw}`)
+    }
+    return value
+}
+
+// --header "Name: value", repeatable
+function parseHeaderFlags(args: string[]): Record<string, string> | undefined {
+    const values = getArgValues(args, '--header')
+    if (values.length === 0) return undefined
+    const headers: Record<string, string> = {}
+    for (const v of values) {
+        const idx = v.indexOf(':')
+        const name = idx === -1 ? '' : v.slice(0, idx).trim()
+        if (!name) {
+            throw new Error(`Invalid --header value: ${v}. Use "Name: value"`)
+        }
+        headers[name] = v.slice(idx + 1).trim()
+    }
+    return headers
+}
+
+// On/off options: [on, off, option]. The off flags undo what a config file turns on.
+const BOOLEAN_FLAGS: Array<[string, string, keyof ExportModulesOptions]> = [
+    ['--to-ia', '--no-to-ia', 'toIa'],
+    ['--merge-common-names', '--no-merge-common-names', 'mergeCommonNames'],
+    ['--flat', '--no-flat', 'flat'],
+    ['--with-deps', '--no-with-deps', 'withDeps'],
+    ['--with-dependents', '--no-with-dependents', 'withDependents'],
+    ['--incremental', '--no-incremental', 'incremental'],
+    ['--source-maps', '--no-source-maps', 'sourceMaps'],
+    ['--dts', '--no-dts', 'declarations'],
+    ['--offline', '--no-offline', 'offline'],
+    ['--continue-on-error', '--no-continue-on-error', 'continueOnError'],
+    ['--strict', '--no-strict', 'strict'],
+    ['--manifest', '--no-manifest', 'manifest']
+]
+
 function hasFlag(args: string[], flagName: string): boolean {
     return args.includes(flagName) || args.some((a) => a.startsWith(`${flagName}=`))
 }
 
-function assertNoUnknownFlags(args: string[]) {
-    const knownFlags = new Set([
+function assertNoUnknownFlags(
+    args: string[],
+    knownFlags = new Set([
         '--no-subdirs',
         '--flat',
         '--to-ia',
+        '--format',
         '--concurrency',
         '--workers',
         '--merge-common-names',
         '--module-filter',
+        '--exclude-filter',
+        '--content-filter',
+        '--content-exclude',
+        '--with-deps',
+        '--with-dependents',
+        '--deps-depth',
+        '--no-manifest',
+        '--incremental',
+        '--source-maps',
+        '--dts',
+        '--cache-dir',
+        '--offline',
+        '--retries',
+        '--retry-delay',
+        '--timeout',
+        '--header',
+        '--proxy',
+        '--continue-on-error',
+        '--strict',
+        '--time-limit',
+        '--collisions',
+        '--config',
+        '--profile',
+        '--watch',
+        '--progress',
+        '--json',
         '--help',
-        '-h'
+        '-h',
+        ...BOOLEAN_FLAGS.flatMap(([on, off]) => [on, off])
     ])
-
+) {
     const unknown: string[] = []
     for (const a of args) {
         if (!a.startsWith('-')) continue
@@ -279,41 +509,32 @@ function assertNoUnknownFlags(args: string[]) {
     }
 }
 
-async function runWithConcurrency<T>(
-    items: T[],
-    limit: number,
-    worker: (item: T, index: number) => Promise<void>
-) {
-    const concurrency = Math.max(1, Math.floor(limit))
-    let nextIdx = 0
-    const runners = new Array(Math.min(concurrency, items.length)).fill(0).map(async () => {
-        while (true) {
-            const idx = nextIdx
-            nextIdx++
-            if (idx >= items.length) return
-            await worker(items[idx], idx)
-        }
-    })
-    await Promise.all(runners)
-}
-
-async function fileExists(p: string): Promise<boolean> {
-    try {
-        await fs.access(p)
-        return true
-    } catch {
-        return false
-    }
+export type ExportFileInfo = {
+    fileName: string
+    moduleName: string
+    start: number
+    end: number
+    hash: string
+    deps: string[]
+    suffix: string | null
 }
 
-type ExportFile = {
-    fileName: string
+export type ExportFile = ExportFileInfo & {
     content: string
+    // Only with the sourceMap option; written next to the file as <fileName>.map
+    map?: SourceMap
+    // Only with the declarations option; written next to the file as <name>.d.ts
+    dts?: string
 }
 
+// Files written next to an export file
+type ExportFileSidecars = Pick<ExportFile, 'map' | 'dts'>
+
 export type ExportModulesOptions = {
     inputFile: string
     outputDir?: string
+    // raw (default), ia (same as toIa) or pretty
+    format?: OutputFormat
     toIa?: boolean
     mergeCommonNames?: boolean
     workers?: number
@@ -321,15 +542,106 @@ export type ExportModulesOptions = {
     flat?: boolean
     noSubdirs?: boolean
     moduleNameFilters?: string[]
+    // Names to leave out, and regexes matched against the module source to keep / leave out.
+    // Same syntax as moduleNameFilters.
+    moduleNameExcludeFilters?: string[]
+    contentFilters?: string[]
+    contentExcludeFilters?: string[]
+    // Also export what the filtered modules require / the modules that require them, following
+    // the dependency arrays of every processed bundle, up to depsDepth levels (default: all)
+    withDeps?: boolean
+    withDependents?: boolean
+    depsDepth?: number
+    manifest?: boolean
+    incremental?: boolean
+    // Write a <file>.js.map next to every module, mapping it back into its bundle
+    sourceMaps?: boolean
+    // Write a <name>.d.ts per module with its discovered exports, plus modules.d.ts mapping
+    // every module name to them
+    declarations?: boolean
+    // JSON mode: on-disk download cache and no-network mode (see FetchBundleOptions)
+    cacheDir?: string
+    offline?: boolean
+    // JSON mode: download retries, per-request timeout, extra headers and proxy (see FetchBundleOptions)
+    retries?: number
+    retryDelay?: number
+    timeout?: number
+    headers?: Record<string, string>
+    proxy?: string
+    // Record bundles that fail to load or export in `failedBundles` instead of throwing
+    continueOnError?: boolean
+    // Fail a bundle (see continueOnError) when any of its __d( calls can't be extracted, instead
+    // of only reporting it in parseDiagnostics
+    strict?: boolean
+    // Different modules that want the same file: suffix (Name_2.js, default), first-wins or
+    // last-wins (in input order). Byte-identical copies are always written once.
+    collisions?: CollisionPolicy
+    // Called as bundles are downloaded and exported (see ExportProgressEvent)
+    onProgress?: (event: ExportProgressEvent) => void
+    // Stops the export: downloads are cancelled, no other bundle is started and the workers are
+    // terminated. The promise then rejects with an ExportAbortedError.
+    signal?: AbortSignal
 }
 
+// `index` is the bundle's position in the input
+export type ExportProgressEvent =
+    | { type: 'start'; bundles: number }
+    // Before a bundle is downloaded or read
+    | { type: 'bundle-fetching'; source: string; index: number }
+    | { type: 'bundle-fetched'; source: string; index: number; bytes: number }
+    // Every module of the bundle was exported (or, with `reused`, found intact from a previous run)
+    | { type: 'bundle-parsed'; source: string; index: number; modules: number; reused: boolean }
+    | { type: 'bundle-failed'; source: string; index: number; error: string }
+    // `written` counts the module files written so far, over all bundles
+    | { type: 'file-written'; source: string; file: string; written: number }
+    | { type: 'warning'; message: string; source?: string }
+    | { type: 'done'; result: ExportModulesResult }
+
 export type ExportModulesResult = {
     inputFile: string
     outputDir: string
-    mode: 'js' | 'json'
+    mode: 'js' | 'json' | 'dir' | 'har'
     bundlesProcessed: number
     filesWritten: number
+    // Bundles with no module to export
     skippedBundles: number
+    // Bundles whose modules were all identical copies of (or lost collisions to) other bundles'
+    duplicateBundles: number
+    // Files left as they were / (re)written / deleted. Without `incremental`,
+    // every file counts as updated.
+    unchangedFiles: number
+    updatedFiles: number
+    removedFiles: number
+    manifestFile: string | null
+    declarationsFile: string | null
+    // Only filled with `continueOnError`
+    failedBundles: Array<{ source: string; error: string }>
+    // Modules found more than once with identical source (written once) and modules that
+    // collided on a file name
+    duplicates: DuplicateModule[]
+    collisions: ModuleCollision[]
+    // With withDeps: dependencies of exported modules that no processed bundle defines
+    missingDependencies: string[]
+    // Modules the filters selected / removed with an exclude filter, over every bundle
+    matchedModules: number
+    excludedModules: number
+    // Modules added by withDeps / withDependents that the filters did not select
+    dependencyModules: number
+    // __d( calls that could not be extracted, so their modules were not exported
+    parseDiagnostics: Array<ParseDiagnostic & { source: string }>
+}
+
+// exportModules() was stopped by its signal. `result` covers the bundles finished before that;
+// the manifest and modules.d.ts are left as they were.
+export class ExportAbortedError extends Error {
+    constructor(
+        readonly result: ExportModulesResult,
+        // The signal's abort reason
+        readonly reason: unknown
+    ) {
+        super(`Export aborted: ${reason instanceof Error ? reason.message : String(reason)}`)
+        this.name = 'ExportAbortedError'
+    }
 }
 
 type WorkerRequest = {
@@ -338,27 +650,37 @@ type WorkerRequest = {
     byteOffset: number
     byteLength: number
     disambiguate: boolean
-    toIa: boolean
+    format: OutputFormat
     mergeCommonNames: boolean
     mergeCommonPrefixes: Array<{ raw: string; isSuffix?: boolean }> | null
     moduleNameFilters: string[]
+    moduleNameExcludeFilters: string[]
+    contentFilters: string[]
+    contentExcludeFilters: string[]
+    moduleNames: string[] | null
+    sourceMap: boolean
+    sourceMapSource: string
+    declarations: boolean
 }
 
 type WorkerChunk = {
     id: number
     kind: 'chunk'
-    files: Array<{
-        fileName: string
-        data: ArrayBuffer
-        byteOffset: number
-        byteLength: number
-    }>
+    files: Array<
+        ExportFileInfo & {
+            data: ArrayBuffer
+            byteOffset: number
+            byteLength: number
+        } & ExportFileSidecars
+    >
 }
 
 type WorkerDone = {
     id: number
     kind: 'done'
     fileCount: number
+    filterStats: ModuleFilterStats
+    diagnostics: ParseDiagnostic[]
 }
 
 type WorkerError = {
@@ -371,13 +693,21 @@ class WorkerPool {
     private readonly workers: Worker[]
     private nextWorkerIdx = 0
     private nextTaskId = 1
+    // Set by cancel(): the workers are gone, so later bundles are rejected right away
+    private cancelled: Error | null = null
     private readonly tasks = new Map<
         number,
         {
-            outDir: string
+            write: (
+                info: ExportFileInfo,
+                data: Buffer,
+                sidecars: ExportFileSidecars
+            ) => Promise<void>
             writeChain: Promise<void>
-            fileCount: number
-            resolve: (filesWritten: number) => void
+            files: ExportFileInfo[]
+            filterStats: ModuleFilterStats
+            diagnostics: ParseDiagnostic[]
+            resolve: (files: ExportFileInfo[]) => void
             reject: (e: Error) => void
         }
     >()
@@ -392,6 +722,14 @@ class WorkerPool {
         })
     }
 
+    // Rejects every pending bundle with `e` and terminates the workers; the pool can't be used
+    // afterwards
+    async cancel(e: Error) {
+        this.cancelled = e
+        this.onWorkerError(e)
+        await this.destroy()
+    }
+
     private onWorkerError(e: Error) {
         for (const [id, t] of this.tasks) {
             this.tasks.delete(id)
@@ -410,23 +748,26 @@ class WorkerPool {
         }
 
         if (msg.kind === 'chunk') {
-            t.fileCount += msg.files.length
+            for (const { data, byteOffset, byteLength, map, dts, ...info } of msg.files) {
+                t.files.push(info)
+            }
             t.writeChain = t.writeChain.then(async () => {
                 await runWithConcurrency(msg.files, 20, async (f) => {
-                    const buf = Buffer.from(f.data, f.byteOffset, f.byteLength)
-                    const filePath = path.join(t.outDir, f.fileName)
-                    await fs.mkdir(path.dirname(filePath), { recursive: true })
-                    await fs.writeFile(filePath, buf)
+                    const { data, byteOffset, byteLength, map, dts, ...info } = f
+                    await t.write(info, Buffer.from(data, byteOffset, byteLength), { map, dts })
                 })
             })
             return
         }
 
+        t.filterStats.matched += msg.filterStats.matched
+        t.filterStats.excluded += msg.filterStats.excluded
+        t.filterStats.dependencies += msg.filterStats.dependencies
+        t.diagnostics.push(...msg.diagnostics)
         t.writeChain
             .then(() => {
                 this.tasks.delete(msg.id)
-                t.fileCount = msg.fileCount
-                t.resolve(t.fileCount)
+                t.resolve(t.files)
             })
             .catch((e) => {
                 this.tasks.delete(msg.id)
@@ -436,22 +777,35 @@ class WorkerPool {
 
     async process(
         bundle: { buffer: ArrayBuffer; byteOffset: number; byteLength: number },
-        outDir: string,
+        write: (info: ExportFileInfo, data: Buffer, sidecars: ExportFileSidecars) => Promise<void>,
         opts: {
             disambiguate: boolean
-            toIa: boolean
+            format: OutputFormat
             mergeCommonNames: boolean
             mergeCommonPrefixes: Array<{ raw: string; isSuffix?: boolean }> | null
             moduleNameFilters: string[]
+            moduleNameExcludeFilters: string[]
+            contentFilters: string[]
+            contentExcludeFilters: string[]
+            moduleNames: string[] | null
+            sourceMap: boolean
+            sourceMapSource: string
+            declarations: boolean
+            // The worker's matched/excluded counts and parse diagnostics are added to them
+            filterStats: ModuleFilterStats
+            diagnostics: ParseDiagnostic[]
         }
-    ): Promise<number> {
+    ): Promise<ExportFileInfo[]> {
+        if (this.cancelled) throw this.cancelled
         const id = this.nextTaskId++
 
-        const p = new Promise<number>((resolve, reject) => {
+        const p = new Promise<ExportFileInfo[]>((resolve, reject) => {
             this.tasks.set(id, {
-                outDir,
+                write,
                 writeChain: Promise.resolve(),
-                fileCount: 0,
+                files: [],
+                filterStats: opts.filterStats,
+                diagnostics: opts.diagnostics,
                 resolve,
                 reject
             })
@@ -463,10 +817,17 @@ class WorkerPool {
             byteOffset: bundle.byteOffset,
             byteLength: bundle.byteLength,
             disambiguate: opts.disambiguate,
-            toIa: opts.toIa,
+            format: opts.format,
             mergeCommonNames: opts.mergeCommonNames,
             mergeCommonPrefixes: opts.mergeCommonPrefixes,
-            moduleNameFilters: opts.moduleNameFilters
+            moduleNameFilters: opts.moduleNameFilters,
+            moduleNameExcludeFilters: opts.moduleNameExcludeFilters,
+            contentFilters: opts.contentFilters,
+            contentExcludeFilters: opts.contentExcludeFilters,
+            moduleNames: opts.moduleNames,
+            sourceMap: opts.sourceMap,
+            sourceMapSource: opts.sourceMapSource,
+            declarations: opts.declarations
         }
 
         const w = this.workers[this.nextWorkerIdx]
@@ -480,354 +841,48 @@ class WorkerPool {
     }
 }
 
-function extractDCalls(source: string): string[] {
-    const out: string[] = []
-    let i = 0
-
-    while (i < source.length) {
-        const start = findNextDCallStart(source, i)
-        if (start === -1) break
-
-        try {
-            const openParenIdx = start + '__d'.length
-            const closeParenIdx = findMatchingParen(source, openParenIdx)
-            let end = closeParenIdx + 1
-            while (end < source.length && /\s/.test(source[end])) end++
-            if (source[end] === ';') end++
-
-            out.push(source.slice(start, end))
-            i = end
-        } catch (e: any) {
-            const msg = e && typeof e.message === 'string' ? e.message : String(e)
-            console.error(`Warning: failed to parse __d(...) at offset ${start}: ${msg}`)
-            i = start + '__d('.length
-        }
-    }
-
-    return out
-}
-
-function findNextDCallStart(source: string, fromIdx: number): number {
-    let mode: 'code' | 'single' | 'double' | 'template' | 'regex' | 'lineComment' | 'blockComment' =
-        'code'
-    let regexInClass = false
-    let templateExprDepth = 0
-    const templateExprStack: number[] = []
-
-    for (let i = fromIdx; i < source.length; i++) {
-        const ch = source[i]
-        const next = i + 1 < source.length ? source[i + 1] : ''
-
-        if (mode === 'lineComment') {
-            if (ch === '\n') mode = 'code'
-            continue
-        }
-        if (mode === 'blockComment') {
-            if (ch === '*' && next === '/') {
-                mode = 'code'
-                i++
-            }
-            continue
-        }
-        if (mode === 'single') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === "'") mode = 'code'
-            continue
-        }
-        if (mode === 'double') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === '"') mode = 'code'
-            continue
-        }
-        if (mode === 'template') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === '`') {
-                const prevDepth = templateExprStack.pop()
-                templateExprDepth = prevDepth ?? 0
-                mode = 'code'
-                continue
-            }
-            if (ch === '$' && next === '{') {
-                templateExprDepth = 1
-                mode = 'code'
-                i++
-                continue
-            }
-            continue
-        }
-        if (mode === 'regex') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === '[') {
-                regexInClass = true
-                continue
-            }
-            if (ch === ']' && regexInClass) {
-                regexInClass = false
-                continue
-            }
-            if (ch === '/' && !regexInClass) {
-                mode = 'code'
-            }
-            continue
-        }
-
-        if (ch === '/' && next === '/') {
-            mode = 'lineComment'
-            i++
-            continue
-        }
-        if (ch === '/' && next === '*') {
-            mode = 'blockComment'
-            i++
-            continue
-        }
-        if (ch === "'") {
-            mode = 'single'
-            continue
-        }
-        if (ch === '"') {
-            mode = 'double'
-            continue
-        }
-        if (ch === '`') {
-            templateExprStack.push(templateExprDepth)
-            templateExprDepth = 0
-            mode = 'template'
-            continue
-        }
-        if (ch === '/') {
-            if (looksLikeRegexStart(source, i)) {
-                mode = 'regex'
-                regexInClass = false
-                continue
-            }
-        }
-
-        if (templateExprDepth > 0) {
-            if (ch === '{') templateExprDepth++
-            else if (ch === '}') {
-                templateExprDepth--
-                if (templateExprDepth === 0) {
-                    mode = 'template'
-                    continue
-                }
-            }
-        }
-
-        if (ch === '_' && source.startsWith('__d(', i)) {
-            return i
-        }
-    }
-
-    return -1
-}
-
-function findMatchingParen(source: string, openParenIdx: number): number {
-    let depth = 0
-    let mode: 'code' | 'single' | 'double' | 'template' | 'regex' | 'lineComment' | 'blockComment' =
-        'code'
-    let regexInClass = false
-    let templateExprDepth = 0
-    const templateExprStack: number[] = []
-
-    for (let i = openParenIdx; i < source.length; i++) {
-        const ch = source[i]
-        const next = i + 1 < source.length ? source[i + 1] : ''
-
-        if (mode === 'lineComment') {
-            if (ch === '\n') mode = 'code'
-            continue
-        }
-        if (mode === 'blockComment') {
-            if (ch === '*' && next === '/') {
-                mode = 'code'
-                i++
-            }
-            continue
-        }
-        if (mode === 'single') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === "'") mode = 'code'
-            continue
-        }
-        if (mode === 'double') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === '"') mode = 'code'
-            continue
-        }
-        if (mode === 'template') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === '`') {
-                const prevDepth = templateExprStack.pop()
-                templateExprDepth = prevDepth ?? 0
-                mode = 'code'
-                continue
-            }
-            if (ch === '$' && next === '{') {
-                templateExprDepth = 1
-                mode = 'code'
-                i++
-                continue
-            }
-            continue
-        }
-        if (mode === 'regex') {
-            if (ch === '\\') {
-                i++
-                continue
-            }
-            if (ch === '[') {
-                regexInClass = true
-                continue
-            }
-            if (ch === ']' && regexInClass) {
-                regexInClass = false
-                continue
-            }
-            if (ch === '/' && !regexInClass) {
-                mode = 'code'
-            }
-            continue
-        }
-
-        if (ch === '/' && next === '/') {
-            mode = 'lineComment'
-            i++
-            continue
-        }
-        if (ch === '/' && next === '*') {
-            mode = 'blockComment'
-            i++
-            continue
-        }
-        if (ch === "'") {
-            mode = 'single'
-            continue
-        }
-        if (ch === '"') {
-            mode = 'double'
-            continue
-        }
-        if (ch === '`') {
-            templateExprStack.push(templateExprDepth)
-            templateExprDepth = 0
-            mode = 'template'
-            continue
-        }
-        if (ch === '/') {
-            if (looksLikeRegexStart(source, i)) {
-                mode = 'regex'
-                regexInClass = false
-                continue
-            }
-        }
-
-        if (templateExprDepth > 0) {
-            if (ch === '{') templateExprDepth++
-            else if (ch === '}') {
-                templateExprDepth--
-                if (templateExprDepth === 0) {
-                    mode = 'template'
-                    continue
-                }
-            }
-        }
-
-        if (ch === '(') depth++
-        else if (ch === ')') {
-            depth--
-            if (depth === 0) return i
-        }
-    }
-
-    throw new Error('No matching closing parenthesis found for __d(')
-}
-
-function looksLikeRegexStart(source: string, slashIdx: number): boolean {
-    const next = slashIdx + 1 < source.length ? source[slashIdx + 1] : ''
-    if (next === '/' || next === '*') return false
-
-    let j = slashIdx - 1
-    while (j >= 0 && /\s/.test(source[j])) j--
-    if (j < 0) return true
-
-    const prev = source[j]
-
-    if (/[\)\]\}]/.test(prev)) return false
-    if (/[\w$]/.test(prev)) {
-        let k = j
-        while (k >= 0 && /[\w$]/.test(source[k])) k--
-        const word = source.slice(k + 1, j + 1)
-        if (word === 'return' || word === 'throw' || word === 'case') return true
-        return false
-    }
-    if (prev === '.' || prev === '"' || prev === "'" || prev === '`') return false
-
-    if (/[(\[\{,:;=!?~+\-*%&|^<>]/.test(prev)) return true
-
-    return false
-}
-
-function extractFirstStringArg(dCall: string): string | null {
-    const start = dCall.indexOf('__d(')
-    if (start === -1) return null
-    let i = start + '__d('.length
-    while (i < dCall.length && /\s/.test(dCall[i])) i++
-    const quote = dCall[i]
-    if (quote !== '"' && quote !== "'") return null
-    i++
-    let out = ''
-    for (; i < dCall.length; i++) {
-        const ch = dCall[i]
-        if (ch === '\\') {
-            const next = i + 1 < dCall.length ? dCall[i + 1] : ''
-            out += next
-            i++
-            continue
-        }
-        if (ch === quote) return out
-        out += ch
-    }
-    return null
-}
-
 function printUsageAndExit() {
-    console.error('Usage: wa-export <inputFile.js|inputFile.json> <outputDir?>')
+    console.error('Usage: wa-export <inputFile.js|.json|.har|inputDir|glob> <outputDir?>')
+    console.error(
+        `       (input, output and any flag can also come from ${CONFIG_FILE_NAMES.join(' / ')} in the working directory)`
+    )
     console.error(' - inputFile.js: bundle path')
-    console.error(' - inputFile.json: JSON file with a string[] of URLs to .js bundles')
+    console.error(' - inputFile.json: JSON string[] of bundle URLs, file:// URLs or relative paths')
+    console.error(' - inputFile.har: HAR capture, every JavaScript response with __d( modules')
+    console.error(' - inputDir | glob: local .js bundles (quote globs, e.g. "captures/**/*.js")')
     console.error(' - outputDir (opcional): output dir')
-    console.error(' - flags (only for .json input):')
+    console.error(' - flags (only for .json, .har, directory or glob input):')
     console.error(
         '   --no-subdirs | --flat : export all bundles into outputDir (no per-bundle subfolders)'
     )
     console.error(
         '   --concurrency N        : number of bundles to download/process in parallel (default: same as --workers, or 1)'
     )
+    console.error(
+        '   --cache-dir DIR        : keep downloaded bundles (with headers and timestamps) in DIR and reuse them'
+    )
+    console.error(
+        '   --offline              : never download; bundles must be local paths, file:// URLs or in --cache-dir'
+    )
+    console.error(
+        '   --retries N            : retry failed downloads (network errors, timeouts, HTTP 408/429/5xx) N times (default: 0)'
+    )
+    console.error(
+        '   --retry-delay MS       : delay before the first retry, doubled on every attempt (default: 500)'
+    )
+    console.error('   --timeout MS           : per-request download timeout (default: none)')
+    console.error(
+        '   --header "Name: value" : extra request header, e.g. User-Agent or Cookie (repeatable)'
+    )
+    console.error('   --proxy URL            : download through an HTTP(S) proxy')
+    console.error(
+        '   --continue-on-error    : skip bundles that fail to download or export and report them at the end'
+    )
     console.error(' - flags (any mode):')
     console.error(
-        '   --to-ia               : minify output with terser and add line breaks for lower token usage'
+        '   --format raw|ia|pretty: module output (default: raw); ia = terser-compressed with line breaks for lower token usage, pretty = re-printed with consistent indentation'
     )
+    console.error('   --to-ia               : same as --format ia')
     console.error(
         '   --merge-common-names  : group exports into folders by common name prefixes (ignores WAWeb only for matching)'
     )
@@ -837,169 +892,413 @@ function printUsageAndExit() {
     console.error(
         '   --module-filter REGEXP: export only modules whose names match REGEXP (repeatable)'
     )
+    console.error('   --exclude-filter REGEXP: skip modules whose names match REGEXP (repeatable)')
+    console.error(
+        '   --content-filter REGEXP: export only modules whose source matches REGEXP (repeatable)'
+    )
+    console.error(
+        '   --content-exclude REGEXP: skip modules whose source matches REGEXP (repeatable)'
+    )
+    console.error(
+        '   --with-deps           : with --module-filter, also export every module the matches require (across all bundles)'
+    )
+    console.error(
+        '   --with-dependents     : with --module-filter, also export every module that requires the matches'
+    )
+    console.error(
+        '   --deps-depth N        : follow --with-deps/--with-dependents at most N levels (default: no limit)'
+    )
+    console.error(
+        '   --no-manifest         : do not write manifest.json (module index) into outputDir'
+    )
+    console.error(
+        '   --incremental         : only rewrite modules that changed since the last run (keeps a cache in outputDir)'
+    )
+    console.error(
+        '   --source-maps         : write a .js.map per module pointing back into the original bundle (works with --to-ia)'
+    )
+    console.error(
+        '   --dts                 : write a .d.ts per module with its discovered exports, plus modules.d.ts (module name -> exports)'
+    )
+    console.error(
+        '   --collisions suffix|first-wins|last-wins: different modules with the same file name get Name_2.js (default), or only the first/last one is kept; identical copies are always written once'
+    )
+    console.error(
+        '   --strict              : fail when a module could not be extracted from its bundle (see --continue-on-error)'
+    )
+    console.error(
+        '   --time-limit MS       : stop the export after MS milliseconds, like Ctrl+C (keeps what was exported)'
+    )
+    console.error(
+        '   --config FILE         : read options from FILE (.json or .js) instead of wa-export.config.*; flags override it'
+    )
+    console.error(
+        '   --profile NAME        : apply the options of profile NAME from the config file'
+    )
+    console.error(
+        '   --no-<flag>           : turn off an on/off option the config file turns on (e.g. --no-incremental; --manifest)'
+    )
+    console.error(
+        '   --watch               : keep running and re-export (incrementally) whenever the input changes'
+    )
+    console.error(
+        '   --progress            : show bundles done, files written and the current download on stderr'
+    )
+    console.error(
+        '   --json                : print the result (plus warnings and failures as "diagnostics") as JSON on stdout'
+    )
     console.error('   --help | -h           : show this help')
     console.error("   If not given, will be '<inputDir>/deobfuscated/<inputNameWithoutExt>'")
+    console.error('')
+    console.error('       wa-export graph <input> <outputFile?>  (run with --help for details)')
+    console.error('       wa-export diff <old> <new>             (run with --help for details)')
     process.exit(1)
 }
 
-function formatForIA(minified: string): string {
-    return minified
-        .replace(/;(?=\S)/g, ';\n')
-        .replace(/\{(?=\S)/g, '{\n')
-        .replace(/\}(?=[^\s,;)\]])/g, '}\n')
+function printDiffUsageAndExit() {
+    console.error('Usage: wa-export diff <old> <new>')
+    console.error(' - old/new: bundle .js, .json URL list, .har, or a directory/glob of modules')
+    console.error(' - flags:')
+    console.error('   --unified             : print a unified diff of every changed module')
+    console.error('   --context N           : context lines for --unified (default: 3)')
+    console.error('   --json                : print the result as JSON')
+    console.error('   --concurrency N       : bundles to download in parallel (default: 1)')
+    console.error('   --help | -h           : show this help')
+    process.exit(1)
 }
 
-async function maybeToIA(code: string, enabled: boolean): Promise<string> {
-    if (!enabled) return code
-    try {
-        const out = await minify(code, {
-            compress: {
-                dead_code: true,
-                drop_console: false,
-                drop_debugger: true,
-                evaluate: true,
-                booleans: true,
-                conditionals: true,
-                unused: true,
-                sequences: false,
-                join_vars: false,
-                collapse_vars: false,
-                reduce_vars: false,
-                inline: false,
-                loops: false,
-                if_return: false
-            },
-            mangle: false,
-            format: {
-                comments: false,
-                semicolons: true,
-                beautify: false
+function printGraphUsageAndExit() {
+    console.error('Usage: wa-export graph <input> <outputFile?>')
+    console.error(
+        ' - input: bundle .js, .json URL list, .har, directory/glob, or an export manifest.json'
+    )
+    console.error(' - outputFile (optional): write the graph there instead of stdout')
+    console.error(' - flags:')
+    console.error('   --format json|dot|mermaid : output format (default: json)')
+    console.error('   --root NAME               : only include modules reachable from NAME')
+    console.error('   --depth N                 : with --root, follow at most N dependency levels')
+    console.error('   --concurrency N           : bundles to download in parallel (default: 1)')
+    console.error('   --help | -h               : show this help')
+    process.exit(1)
+}
+
+export type BuildExportFilesOptions = {
+    // Resolve modules that want the same file with `collisions` (default: true). When false,
+    // every module keeps its own name and later files overwrite earlier ones.
+    disambiguate?: boolean
+    // suffix (Name_2.js, default), first-wins or last-wins. Byte-identical copies of a module are
+    // always written once.
+    collisions?: CollisionPolicy
+    format?: OutputFormat
+    // Same as format: 'ia'
+    toIa?: boolean
+    mergeCommonNames?: boolean
+    mergeCommonPrefixes?: Array<{ raw: string; isSuffix?: boolean }> | null
+    moduleNameFilters?: string[]
+    moduleNameExcludeFilters?: string[]
+    contentFilters?: string[]
+    contentExcludeFilters?: string[]
+    // Exact module names to export, on top of the ones the filters select
+    moduleNames?: string[] | null
+    // Counts of matched/excluded/dependency modules are added to it
+    filterStats?: ModuleFilterStats
+    // __d( calls that can't be extracted are added to it (printed as warnings without it)
+    diagnostics?: ParseDiagnostic[]
+    // Emit a source map per module (ExportFile.map) pointing back into the bundle
+    sourceMap?: boolean
+    // Bundle file/URL recorded as the map's source (default: 'bundle.js')
+    sourceMapSource?: string
+    // Describe each module's exports as a .d.ts (ExportFile.dts)
+    declarations?: boolean
+}
+
+type MergePrefix = { raw: string; norm: string; isSuffix?: boolean }
+
+function toMergePrefixes(prefixes: Array<{ raw: string; isSuffix?: boolean }>): MergePrefix[] {
+    return prefixes.map((p) => ({
+        raw: p.raw,
+        norm: normalizeForMerge(p.raw),
+        isSuffix: p.isSuffix
+    }))
+}
+
+// Turns matching __d calls into export files one by one, keeping the name counters between calls.
+function createExportFileBuilder(opts: BuildExportFilesOptions | undefined) {
+    const disambiguate = opts?.disambiguate !== false
+    const format = resolveOutputFormat(opts?.format, opts?.toIa === true)
+    const mergeCommonNames = opts?.mergeCommonNames === true
+    const filters = compileModuleFilters(normalizeModuleFilterPatterns(opts))
+    const filtered = hasModuleFilters(filters)
+    const filterStats = opts?.filterStats
+    const sourceMap = opts?.sourceMap === true
+    const sourceMapSource = opts?.sourceMapSource ?? 'bundle.js'
+    const declarations = opts?.declarations === true
+
+    let count = 0
+    const names = disambiguate
+        ? new OutputNameResolver(resolveCollisionPolicy(opts?.collisions))
+        : null
+
+    const moduleNames = opts?.moduleNames ? new Set(opts.moduleNames) : null
+
+    const matches = (rawName: string, source: string) => {
+        let verdict: 'matched' | 'excluded' | null = null
+        if (filtered) verdict = applyModuleFilters(filters, rawName, source)
+        else if (!moduleNames) verdict = 'matched'
+        if (verdict === 'matched') {
+            if (filterStats) filterStats.matched++
+            return true
+        }
+        const selected = !!moduleNames?.has(rawName)
+        if (filterStats) {
+            if (selected) filterStats.dependencies++
+            else if (verdict === 'excluded') filterStats.excluded++
+        }
+        return selected
+    }
+
+    // Null when the module is not written: an identical copy was already built, or it lost a
+    // first-wins/last-wins collision
+    const build = async (
+        call: ParsedModule,
+        mergePrefixes: MergePrefix[]
+    ): Promise<ExportFile | null> => {
+        const rawName = call.name ?? ''
+        const safeBase =
+            rawName && /^[\w\[\]-]+/.test(rawName)
+                ? rawName.replace(/[^\w\-\[\]]+/g, '_')
+                : `module_${++count}`
+
+        let relPath = `${safeBase}.js`
+        if (mergeCommonNames && rawName && /^[\w\[\]-]+/.test(rawName)) {
+            const dir = pickMergeDir(rawName, mergePrefixes)
+            if (dir) {
+                relPath = path.join(dir, `${safeBase}.js`)
             }
-        })
-        const min = out.code || ''
-        if (!min) return formatForIA(code)
-        return formatForIA(min)
-    } catch {
-        return formatForIA(code)
+        }
+
+        const hash = sha1Hex(call.source)
+        let suffix: string | null = null
+        if (names) {
+            const claim = names.claim({
+                file: relPath,
+                moduleName: rawName,
+                hash,
+                source: sourceMapSource
+            })
+            if (claim.action !== 'write') return null
+            relPath = claim.file
+            suffix = claim.suffix
+        }
+        const rendered = await renderModule(call.source, format, sourceMap)
+
+        let content = rendered.code
+        let map: SourceMap | undefined
+        if (rendered.mappings) {
+            const fileName = path.basename(relPath)
+            map = buildSourceMap(
+                fileName,
+                sourceMapSource,
+                shiftOriginalPositions(rendered.mappings, call.line - 1, call.column),
+                rendered.names
+            )
+            content += `\n//# sourceMappingURL=${fileName}.map\n`
+        }
+
+        return {
+            fileName: relPath,
+            content,
+            map,
+            dts: declarations ? moduleDeclaration(rawName, call.source) : undefined,
+            moduleName: rawName,
+            start: call.start,
+            end: call.end,
+            hash,
+            deps: call.deps,
+            suffix
+        }
     }
+
+    return { matches, build }
 }
 
 export async function buildExportFiles(
     bundleContent: string,
-    opts?: {
-        disambiguate?: boolean
-        toIa?: boolean
-        mergeCommonNames?: boolean
-        mergeCommonPrefixes?: Array<{ raw: string; isSuffix?: boolean }> | null
-        moduleNameFilters?: string[]
-    }
+    opts?: BuildExportFilesOptions
 ): Promise<ExportFile[]> {
-    const calls = extractDCalls(bundleContent)
+    const calls = parseBundle(bundleContent, opts?.diagnostics)
 
     if (calls.length === 0) {
         return []
     }
 
-    const disambiguate = opts?.disambiguate !== false
-    const toIa = opts?.toIa === true
-    const mergeCommonNames = opts?.mergeCommonNames === true
+    const builder = createExportFileBuilder(opts)
     const mergeCommonPrefixes = opts?.mergeCommonPrefixes ?? null
-    const moduleNameFilters = compileModuleNameFilters(opts?.moduleNameFilters ?? [])
-    const filteredCalls =
-        moduleNameFilters.length === 0
-            ? calls.map((dCall) => ({
-                  dCall,
-                  rawName: (extractFirstStringArg(dCall) || '').trim()
-              }))
-            : calls
-                  .map((dCall) => ({
-                      dCall,
-                      rawName: (extractFirstStringArg(dCall) || '').trim()
-                  }))
-                  .filter((entry) => moduleNameMatchesFilters(entry.rawName, moduleNameFilters))
+    const filteredCalls = calls.filter((call) => builder.matches(call.name ?? '', call.source))
 
     if (filteredCalls.length === 0) {
         return []
     }
 
-    let count = 0
-    const usedNames = disambiguate ? new Map<string, number>() : null
-    const out: ExportFile[] = []
-
-    let mergePrefixes: Array<{ raw: string; norm: string; isSuffix?: boolean }> = []
-    if (mergeCommonNames) {
+    let mergePrefixes: MergePrefix[] = []
+    if (opts?.mergeCommonNames === true) {
         if (mergeCommonPrefixes && mergeCommonPrefixes.length > 0) {
-            mergePrefixes = mergeCommonPrefixes.map((p) => ({
-                raw: p.raw,
-                norm: normalizeForMerge(p.raw),
-                isSuffix: p.isSuffix
-            }))
+            mergePrefixes = toMergePrefixes(mergeCommonPrefixes)
         } else {
             const rawNamesForMerge: string[] = []
-            for (const { rawName } of filteredCalls) {
-                if (rawName && /^[\w\[\]-]+/.test(rawName)) {
-                    rawNamesForMerge.push(rawName)
+            for (const { name } of filteredCalls) {
+                if (name && /^[\w\[\]-]+/.test(name)) {
+                    rawNamesForMerge.push(name)
                 }
             }
             mergePrefixes = computeMergePrefixes(rawNamesForMerge)
         }
     }
 
-    for (const { dCall, rawName } of filteredCalls) {
-        const safeBaseBase =
-            rawName && /^[\w\[\]-]+/.test(rawName)
-                ? rawName.replace(/[^\w\-\[\]]+/g, '_')
-                : `module_${++count}`
+    const out: ExportFile[] = []
+    for (const call of filteredCalls) {
+        const file = await builder.build(call, mergePrefixes)
+        if (file) out.push(file)
+    }
+    if (opts?.disambiguate === false) return out
+    // With last-wins a later module replaces an earlier one in the same file
+    const lastIdx = new Map(out.map((f, idx) => [f.fileName, idx]))
+    return out.filter((f, idx) => lastIdx.get(f.fileName) === idx)
+}
+
+// Streaming buildExportFiles: modules are scanned and yielded as the bundle is read, so memory is
+// bounded by the largest module. Merge groups need every name up front, so with mergeCommonNames
+// the prefixes must be passed in (mergeCommonPrefixes). With last-wins, a file can be yielded
+// again for a later module that replaces it.
+export async function* streamExportFiles(
+    input: BundleChunks,
+    opts?: BuildExportFilesOptions
+): AsyncGenerator<ExportFile> {
+    const mergeCommonPrefixes = opts?.mergeCommonPrefixes ?? null
+    if (opts?.mergeCommonNames === true && !mergeCommonPrefixes) {
+        throw new Error('streamExportFiles needs mergeCommonPrefixes when mergeCommonNames is set')
+    }
+
+    const builder = createExportFileBuilder(opts)
+    const mergePrefixes = mergeCommonPrefixes ? toMergePrefixes(mergeCommonPrefixes) : []
+    for await (const call of parseBundleStream(input, opts?.diagnostics)) {
+        if (!builder.matches(call.name ?? '', call.source)) continue
+        const file = await builder.build(call, mergePrefixes)
+        if (file) yield file
+    }
+}
+
+function toPosixRelative(from: string, to: string): string {
+    return path.relative(from, to).split(path.sep).join('/')
+}
+
+// foo/Bar.js -> foo/Bar.d.ts, so TypeScript picks it up for imports of the module file
+function declarationPath(file: string): string {
+    return file.replace(/\.js$/, '') + '.d.ts'
+}
 
-        let safeBase = safeBaseBase
-        if (usedNames) {
-            const seen = usedNames.get(safeBaseBase) || 0
-            usedNames.set(safeBaseBase, seen + 1)
-            safeBase = seen === 0 ? safeBaseBase : `${safeBaseBase}_${seen + 1}`
+// Moves an export file to <name><suffix>.js, along with its source map reference
+function withSuffix(
+    info: ExportFileInfo,
+    data: Buffer,
+    sidecars: ExportFileSidecars,
+    suffix: string
+): { info: ExportFileInfo; data: Buffer; sidecars: ExportFileSidecars } {
+    const fileName = info.fileName.replace(/\.js$/, '') + suffix + '.js'
+    return withFileName(info, data, sidecars, fileName, suffix)
+}
+
+// The module as written to `fileName` instead (its source map reference follows)
+function withFileName(
+    info: ExportFileInfo,
+    data: Buffer,
+    sidecars: ExportFileSidecars,
+    fileName: string,
+    suffix: string | null
+): { info: ExportFileInfo; data: Buffer; sidecars: ExportFileSidecars } {
+    let map = sidecars.map
+    if (map) {
+        const text = data.toString('utf-8')
+        const ref = `//# sourceMappingURL=${path.basename(info.fileName)}.map`
+        const at = text.lastIndexOf(ref)
+        const newBase = path.basename(fileName)
+        if (at !== -1) {
+            const newRef = `//# sourceMappingURL=${newBase}.map`
+            data = Buffer.from(text.slice(0, at) + newRef + text.slice(at + ref.length), 'utf-8')
         }
-        const content = await maybeToIA(dCall, toIa)
+        map = { ...map, file: newBase }
+    }
+    return { info: { ...info, fileName, suffix }, data, sidecars: { ...sidecars, map } }
+}
 
-        let relPath = `${safeBase}.js`
-        if (mergeCommonNames && rawName && /^[\w\[\]-]+/.test(rawName)) {
-            const dir = pickMergeDir(rawName, mergePrefixes)
-            if (dir) {
-                relPath = path.join(dir, `${safeBase}.js`)
-            }
+async function removeEmptyDirs(dir: string, stopAt: string) {
+    let current = dir
+    while (current.startsWith(stopAt + path.sep)) {
+        try {
+            await fs.rmdir(current)
+        } catch {
+            return
         }
+        current = path.dirname(current)
+    }
+}
 
-        out.push({ fileName: relPath, content })
+// Dependency arrays of a bundle's modules, and the names the filters select among them
+async function collectModuleSelection(
+    calls: Iterable<ParsedModule> | AsyncIterable<ParsedModule>,
+    filters: ModuleFilters
+): Promise<{ modules: ModuleDeps[]; seeds: string[] }> {
+    const modules: ModuleDeps[] = []
+    const seeds: string[] = []
+    for await (const { name, deps, source } of calls) {
+        if (!name) continue
+        modules.push({ name, deps })
+        if (applyModuleFilters(filters, name, source) === 'matched') seeds.push(name)
     }
+    return { modules, seeds }
+}
 
-    return out
+async function sha1File(file: string): Promise<string> {
+    const hash = createHash('sha1')
+    for await (const chunk of createReadStream(file)) hash.update(chunk)
+    return hash.digest('hex')
 }
 
-async function writeExportFiles(outDir: string, files: ExportFile[]) {
-    await fs.mkdir(outDir, { recursive: true })
-    await runWithConcurrency(files, 20, async (f) => {
-        const filePath = path.join(outDir, f.fileName)
-        await fs.mkdir(path.dirname(filePath), { recursive: true })
-        await fs.writeFile(filePath, f.content, 'utf-8')
-    })
+async function readFileArrayBuffer(file: string): Promise<ArrayBuffer> {
+    const buf = await fs.readFile(file)
+    const canTransferZeroCopy =
+        buf.byteOffset === 0 && buf.byteLength === (buf.buffer as ArrayBuffer).byteLength
+    return canTransferZeroCopy ? (buf.buffer as ArrayBuffer) : new Uint8Array(buf).slice().buffer
+}
+
+function safeDirNameFromBase(base: string, fallbackIndex: number): string {
+    const cleaned = base.replace(/[^\w\-\[\]]+/g, '_').trim()
+
+    const raw = cleaned || `bundle_${fallbackIndex}`
+    const maxLen = 80
+    if (raw.length <= maxLen) return raw
+
+    const hash = createHash('sha1').update(raw).digest('hex').slice(0, 10)
+    const prefixLen = Math.max(1, maxLen - (1 + hash.length))
+    return `${raw.slice(0, prefixLen)}_${hash}`
 }
 
 function safeDirNameFromUrl(url: string, fallbackIndex: number): string {
     try {
         const u = new URL(url)
-        const base = path.basename(u.pathname, path.extname(u.pathname))
-        const cleaned = base.replace(/[^\w\-\[\]]+/g, '_').trim()
-
-        const raw = cleaned || `bundle_${fallbackIndex}`
-        const maxLen = 80
-        if (raw.length <= maxLen) return raw
-
-        const hash = createHash('sha1').update(raw).digest('hex').slice(0, 10)
-        const prefixLen = Math.max(1, maxLen - (1 + hash.length))
-        return `${raw.slice(0, prefixLen)}_${hash}`
+        return safeDirNameFromBase(
+            path.basename(u.pathname, path.extname(u.pathname)),
+            fallbackIndex
+        )
     } catch {
         return `bundle_${fallbackIndex}`
     }
 }
 
+function safeDirNameFromFile(file: string, fallbackIndex: number): string {
+    return safeDirNameFromBase(path.basename(file, path.extname(file)), fallbackIndex)
+}
+
 function defaultOutputDirForInput(inputFile: string): string {
     return path.join(
         path.dirname(inputFile),
@@ -1008,19 +1307,44 @@ function defaultOutputDirForInput(inputFile: string): string {
     )
 }
 
+type BundleJob = {
+    // Bundle URL (JSON/HAR mode) or absolute bundle path (JS/dir mode)
+    source: string
+    outDir: string
+    load: () => Promise<ArrayBuffer>
+    // Set for bundles read from disk
+    file?: string
+}
+
 export async function exportModules(options: ExportModulesOptions): Promise<ExportModulesResult> {
+    return (await runExport(options, null)).result
+}
+
+// exportModules(), optionally on a worker pool that outlives the run (watch mode). Also returns
+// the exported modules, so runs can be compared.
+async function runExport(
+    options: ExportModulesOptions,
+    sharedPool: WorkerPool | null
+): Promise<{ result: ExportModulesResult; modules: ExportManifestModule[] }> {
     const inputFile = path.resolve(process.cwd(), options.inputFile)
+
+    // Directory or glob of local bundles: processed like a JSON list of URLs
+    const bundleFiles = await listInputBundleFiles(inputFile, { exclude: options.outputDir })
     const outputDir = options.outputDir
         ? path.resolve(process.cwd(), options.outputDir)
-        : defaultOutputDirForInput(inputFile)
+        : defaultOutputDirForInput(
+              bundleFiles && isGlobPattern(inputFile) ? globBaseDir(inputFile) : inputFile
+          )
 
-    if (!(await fileExists(inputFile))) {
+    if (!bundleFiles && !(await fileExists(inputFile))) {
         throw new Error(`Input não encontrado: ${inputFile}`)
     }
 
     const ext = path.extname(inputFile).toLowerCase()
-    if (ext !== '.js' && ext !== '.json') {
-        throw new Error(`Unsupported input extension: ${ext}. Use .js or .json`)
+    if (!bundleFiles && ext !== '.js' && ext !== '.json' && ext !== '.har') {
+        throw new Error(
+            `Unsupported input extension: ${ext}. Use .js, .json, .har, a directory or a glob pattern`
+        )
     }
 
     const workersRaw = options.workers ?? 0
@@ -1029,272 +1353,927 @@ export async function exportModules(options: ExportModulesOptions): Promise<Expo
     }
     const poolSize = Math.floor(workersRaw)
 
-    const moduleNameFilterPatterns = normalizeModuleNameFilterPatterns(options.moduleNameFilters)
-    const moduleNameFilters = compileModuleNameFilters(moduleNameFilterPatterns)
-
-    let filesWritten = 0
-    let skippedBundles = 0
-    let bundlesProcessed = 0
-    const mode: ExportModulesResult['mode'] = ext === '.json' ? 'json' : 'js'
+    const filterPatterns = normalizeModuleFilterPatterns(options)
+    const filters = compileModuleFilters(filterPatterns)
+
+    let mode: ExportModulesResult['mode'] = 'js'
+    if (bundleFiles) mode = 'dir'
+    else if (ext === '.json') mode = 'json'
+    else if (ext === '.har') mode = 'har'
+    const format = resolveOutputFormat(options.format, options.toIa === true)
+    const mergeCommonNames = options.mergeCommonNames === true
+    const flat = options.flat === true || options.noSubdirs === true
+    const collisions = resolveCollisionPolicy(options.collisions)
+    const incremental = options.incremental === true
+    const sourceMaps = options.sourceMaps === true
+    const declarations = options.declarations === true
+    const emitManifest = options.manifest !== false
+    const withDeps = options.withDeps === true
+    const withDependents = options.withDependents === true
+    const depsDepth = options.depsDepth
+    if (depsDepth !== undefined && (!Number.isInteger(depsDepth) || depsDepth < 0)) {
+        throw new Error(`Invalid depsDepth value: ${String(depsDepth)}`)
+    }
 
-    const pool = poolSize > 0 ? new WorkerPool(poolSize) : null
+    const defaultConcurrency = Math.max(1, poolSize > 0 ? poolSize : 1)
+    const concurrencyRaw = options.concurrency
+    const concurrency = concurrencyRaw === undefined ? defaultConcurrency : Number(concurrencyRaw)
+    if (!Number.isFinite(concurrency) || concurrency <= 0) {
+        throw new Error(`Invalid concurrency value: ${String(concurrencyRaw)}`)
+    }
 
-    try {
-        if (ext === '.json') {
-            const mergeCommonNames = options.mergeCommonNames === true
-            const flat = options.flat === true || options.noSubdirs === true
-            const useUrlSubdirs = !mergeCommonNames && !flat
-            const disambiguate = !flat
-            const toIa = options.toIa === true
-            const defaultConcurrency = Math.max(1, poolSize > 0 ? poolSize : 1)
-            const concurrencyRaw = options.concurrency
-            const concurrency =
-                concurrencyRaw === undefined ? defaultConcurrency : Number(concurrencyRaw)
-            if (!Number.isFinite(concurrency) || concurrency <= 0) {
-                throw new Error(`Invalid concurrency value: ${String(concurrencyRaw)}`)
+    for (const key of ['retries', 'retryDelay', 'timeout'] as const) {
+        const value = options[key]
+        if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+            throw new Error(`Invalid ${key} value: ${String(value)}`)
+        }
+    }
+    const continueOnError = options.continueOnError === true
+    const signal = options.signal
+    const strict = options.strict === true
+
+    let jobs: BundleJob[]
+    if (mode === 'js') {
+        jobs = [
+            {
+                source: inputFile,
+                outDir: outputDir,
+                load: () => readFileArrayBuffer(inputFile),
+                file: inputFile
             }
+        ]
+    } else {
+        let bundles: Array<Omit<BundleJob, 'outDir'> & { dirBase: string }>
+        if (mode === 'json') {
+            const fetchOptions = {
+                baseDir: path.dirname(inputFile),
+                cacheDir: options.cacheDir,
+                offline: options.offline === true,
+                retries: options.retries,
+                retryDelay: options.retryDelay,
+                timeout: options.timeout,
+                headers: options.headers,
+                proxy: options.proxy,
+                signal
+            }
+            bundles = (await readUrlList(inputFile)).map((url, idx) => {
+                const localPath = resolveLocalBundlePath(url, fetchOptions.baseDir)
+                return {
+                    source: url,
+                    dirBase: localPath
+                        ? safeDirNameFromFile(localPath, idx + 1)
+                        : safeDirNameFromUrl(url, idx + 1),
+                    load: () => fetchBundle(url, fetchOptions),
+                    file: localPath ?? undefined
+                }
+            })
+        } else if (mode === 'har') {
+            bundles = (await readHarBundles(inputFile)).map(({ url, body }, idx) => ({
+                source: url,
+                dirBase: safeDirNameFromUrl(url, idx + 1),
+                // new Uint8Array(buffer) copies, so a transfer to a worker never detaches the body
+                load: async () => new Uint8Array(body).buffer
+            }))
+        } else {
+            bundles = bundleFiles!.map((file, idx) => ({
+                source: file,
+                dirBase: safeDirNameFromFile(file, idx + 1),
+                load: () => readFileArrayBuffer(file),
+                file
+            }))
+        }
 
-            const raw = await fs.readFile(inputFile, 'utf-8')
-            let urls: unknown
-            try {
-                urls = JSON.parse(raw)
-            } catch (e: any) {
-                throw new Error(`Invalid JSON in ${inputFile}: ${e?.message || String(e)}`)
+        const useBundleSubdirs = !mergeCommonNames && !flat
+        const usedDirs = new Map<string, number>()
+        jobs = bundles.map(({ dirBase, ...bundle }) => {
+            if (!useBundleSubdirs) {
+                return { ...bundle, outDir: outputDir }
             }
+            const seen = usedDirs.get(dirBase) || 0
+            usedDirs.set(dirBase, seen + 1)
+            const dirName = seen === 0 ? dirBase : `${dirBase}_${seen + 1}`
+            return { ...bundle, outDir: path.join(outputDir, dirName) }
+        })
+    }
 
-            if (!Array.isArray(urls) || !urls.every((x) => typeof x === 'string')) {
-                throw new Error(`${inputFile} must contain a JSON string[] of URLs`)
+    await fs.mkdir(outputDir, { recursive: true })
+
+    // Bundles exported into the same directory (flat/merged layouts) can collide with each other
+    const sharedOutDirs = new Set(jobs.map((j) => j.outDir)).size < jobs.length
+
+    const onProgress = options.onProgress
+    onProgress?.({ type: 'start', bundles: jobs.length })
+    const loadBundle = async (job: BundleJob, idx: number) => {
+        onProgress?.({ type: 'bundle-fetching', source: job.source, index: idx })
+        const ab = await job.load()
+        onProgress?.({
+            type: 'bundle-fetched',
+            source: job.source,
+            index: idx,
+            bytes: ab.byteLength
+        })
+        return ab
+    }
+
+    const failedBundles: ExportModulesResult['failedBundles'] = []
+    const failed = new Set<number>()
+    // Bundles the signal stopped (or kept from starting): neither exported nor failed
+    const unfinished = new Set<number>()
+    const stopped = (idx: number) => {
+        if (!signal?.aborted) return false
+        unfinished.add(idx)
+        return true
+    }
+    const recordFailure = (job: BundleJob, idx: number, e: any) => {
+        if (stopped(idx)) return
+        const error = e?.message || String(e)
+        onProgress?.({ type: 'bundle-failed', source: job.source, index: idx, error })
+        if (!continueOnError) throw e
+        failed.add(idx)
+        failedBundles.push({ source: job.source, error })
+    }
+
+    // With several bundles, --merge-common-names groups by prefixes computed over all of them,
+    // so every bundle has to be loaded before the first one is exported.
+    let preloaded: Array<ArrayBuffer | null> | null = null
+    let mergeCommonPrefixes: Array<{ raw: string; isSuffix?: boolean }> | null = null
+    if (mode !== 'js' && mergeCommonNames) {
+        const loaded: Array<ArrayBuffer | null> = new Array(jobs.length).fill(null)
+        await runWithConcurrency(jobs, concurrency, async (job, idx) => {
+            if (stopped(idx)) return
+            try {
+                loaded[idx] = await loadBundle(job, idx)
+            } catch (e) {
+                recordFailure(job, idx, e)
             }
+        })
 
-            await fs.mkdir(outputDir, { recursive: true })
-            bundlesProcessed = urls.length
+        preloaded = loaded
+    }
 
-            const usedDirs = new Map<string, number>()
-            const jobs = (urls as string[]).map((url, idx) => {
-                if (!useUrlSubdirs) {
-                    return { url, outDir: outputDir }
+    // --with-deps/--with-dependents: the filtered modules are expanded along the dependency
+    // arrays of every bundle, so all of them are scanned before the first one is exported
+    let moduleNames: Set<string> | null = null
+    let missingDependencies: string[] = []
+    if ((withDeps || withDependents) && hasModuleFilters(filters)) {
+        const loaded: Array<ArrayBuffer | null> = preloaded ?? new Array(jobs.length).fill(null)
+        const selections: Array<{ modules: ModuleDeps[]; seeds: string[] }> = []
+        await runWithConcurrency(jobs, concurrency, async (job, idx) => {
+            if (failed.has(idx) || stopped(idx)) return
+            try {
+                if (!loaded[idx] && job.file) {
+                    // Unparsable calls are reported by the export itself
+                    const calls = parseBundleStream(createReadStream(job.file), [])
+                    selections[idx] = await collectModuleSelection(calls, filters)
+                    return
                 }
-                const dirBase = safeDirNameFromUrl(url, idx + 1)
-                const seen = usedDirs.get(dirBase) || 0
-                usedDirs.set(dirBase, seen + 1)
-                const dirName = seen === 0 ? dirBase : `${dirBase}_${seen + 1}`
-                const outDir = path.join(outputDir, dirName)
-                return { url, outDir }
-            })
+                loaded[idx] ??= await loadBundle(job, idx)
+                const text = Buffer.from(loaded[idx]!).toString('utf-8')
+                selections[idx] = await collectModuleSelection(parseBundle(text, []), filters)
+            } catch (e) {
+                recordFailure(job, idx, e)
+            }
+        })
+        preloaded = loaded
+
+        const modules = selections.flatMap((sel) => sel.modules)
+        const seeds = selections.flatMap((sel) => sel.seeds)
+        const expanded = expandModuleSelection(modules, seeds, {
+            deps: withDeps,
+            dependents: withDependents,
+            depth: depsDepth
+        })
+        moduleNames = expanded.selected
+        missingDependencies = expanded.missing
+    }
+    const isSelected = (rawName: string, source: string) =>
+        moduleNames
+            ? moduleNames.has(rawName)
+            : applyModuleFilters(filters, rawName, source) === 'matched'
+
+    if (mode !== 'js' && mergeCommonNames) {
+        const allRawNames: string[] = []
+        for (const ab of preloaded!) {
+            if (!ab) continue
+            const text = Buffer.from(ab).toString('utf-8')
+            for (const { name, source } of parseBundle(text, [])) {
+                if (name && /^[\w\[\]-]+/.test(name) && isSelected(name, source)) {
+                    allRawNames.push(name)
+                }
+            }
+        }
+        mergeCommonPrefixes = computeMergePrefixes(allRawNames).map((p) => ({
+            raw: p.raw,
+            isSuffix: p.isSuffix
+        }))
+    }
 
-            if (!mergeCommonNames) {
-                await runWithConcurrency(jobs, concurrency, async (job) => {
-                    await fs.mkdir(job.outDir, { recursive: true })
-                    const res = await fetch(job.url)
-                    if (!res.ok) {
-                        throw new Error(`Failed to fetch ${job.url}: HTTP ${res.status}`)
-                    }
+    const fingerprint = sha1Hex(
+        JSON.stringify({
+            format,
+            mergeCommonNames,
+            collisions,
+            moduleNameFilterPatterns: filterPatterns.moduleNameFilters,
+            // Absent when empty, so caches from before these filters existed stay valid
+            ...Object.fromEntries(
+                Object.entries(filterPatterns).filter(
+                    ([key, patterns]) => key !== 'moduleNameFilters' && patterns.length > 0
+                )
+            ),
+            ...(moduleNames
+                ? { moduleNames: sha1Hex(JSON.stringify([...moduleNames].sort())) }
+                : {}),
+            ...(sourceMaps ? { sourceMaps } : {}),
+            ...(declarations ? { declarations } : {})
+        })
+    )
+    const previousCache = incremental ? await readExportCache(outputDir) : null
+    // Bundles can only be reused when they were exported with the same options
+    const reusableBundles =
+        previousCache && previousCache.fingerprint === fingerprint ? previousCache.bundles : {}
+    const previousFiles = previousCache ? previousCache.files : {}
+    const nextCache = emptyExportCache(fingerprint)
 
-                    if (pool) {
-                        const ab = await res.arrayBuffer()
-                        const written = await pool.process(
-                            { buffer: ab, byteOffset: 0, byteLength: ab.byteLength },
-                            job.outDir,
-                            {
-                                disambiguate,
-                                toIa,
-                                mergeCommonNames,
-                                mergeCommonPrefixes: null,
-                                moduleNameFilters: moduleNameFilterPatterns
-                            }
-                        )
-                        if (written === 0) {
-                            skippedBundles++
-                            return
-                        }
-                        filesWritten += written
-                        return
-                    }
+    let filesWritten = 0
+    let skippedBundles = 0
+    let duplicateBundles = 0
+    let unchangedFiles = 0
+    let updatedFiles = 0
+    let removedFiles = 0
+    // Indexed by bundle, so the manifest order does not depend on download/processing order
+    const exportedFiles: ExportFileInfo[][] = []
+    // Modules each bundle selected, before identical copies and collisions are resolved
+    const selectedModules: number[] = []
+    const parseDiagnostics: Array<ExportModulesResult['parseDiagnostics']> = []
+    // File names are decided here rather than per bundle, so collisions and identical copies
+    // across bundles are caught too
+    const names = new OutputNameResolver(collisions)
+    const reusedReports: Array<Pick<ExportCacheBundle, 'duplicates' | 'collisions'>> = []
+    const filterStats: ModuleFilterStats = { matched: 0, excluded: 0, dependencies: 0 }
+    const addFilterStats = (stats: ModuleFilterStats) => {
+        filterStats.matched += stats.matched
+        filterStats.excluded += stats.excluded
+        // Not in caches written before it was counted
+        filterStats.dependencies += stats.dependencies ?? 0
+    }
 
-                    const content = await res.text()
-                    const files = await buildExportFiles(content, {
-                        disambiguate,
-                        toIa,
-                        mergeCommonNames,
-                        mergeCommonPrefixes: null,
-                        moduleNameFilters: moduleNameFilterPatterns
-                    })
-                    if (files.length === 0) {
-                        skippedBundles++
-                        return
-                    }
-                    await writeExportFiles(job.outDir, files)
-                    filesWritten += files.length
-                })
-            } else {
-                const fetched: Array<{ outDir: string; ab: ArrayBuffer } | null> = new Array(
-                    jobs.length
-                ).fill(null)
-
-                await runWithConcurrency(jobs, concurrency, async (job, idx) => {
-                    const res = await fetch(job.url)
-                    if (!res.ok) {
-                        throw new Error(`Failed to fetch ${job.url}: HTTP ${res.status}`)
-                    }
-                    const ab = await res.arrayBuffer()
-                    fetched[idx] = { outDir: job.outDir, ab }
-                })
+    // Skips the write when the file already holds the same content: from earlier in this run, or
+    // else from the previous incremental run
+    const writeIfChanged = async (filePath: string, data: Buffer): Promise<void> => {
+        const rel = toPosixRelative(outputDir, filePath)
+        const contentHash = sha1Hex(data)
+        // Writes to the same file are chained, so this is what the file holds now
+        const current = nextCache.files[rel]
+        nextCache.files[rel] = contentHash
+        const same =
+            current !== undefined
+                ? current === contentHash
+                : incremental && previousFiles[rel] === contentHash && (await fileExists(filePath))
+        if (same) return
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, data)
+    }
 
-                const allRawNames: string[] = []
-                for (const item of fetched) {
-                    if (!item) continue
-                    const text = Buffer.from(item.ab).toString('utf-8')
-                    const calls = extractDCalls(text)
-                    for (const dCall of calls) {
-                        const rawName = (extractFirstStringArg(dCall) || '').trim()
-                        if (
-                            rawName &&
-                            /^[\w\[\]-]+/.test(rawName) &&
-                            moduleNameMatchesFilters(rawName, moduleNameFilters)
-                        ) {
-                            allRawNames.push(rawName)
-                        }
-                    }
-                }
+    // For progress events
+    let writtenSoFar = 0
+
+    // Writes to a file replaced by a later module (first-wins/last-wins) or moved to another
+    // suffix are chained, so the last claim's content is always the one left
+    const pendingWrites = new Map<string, Promise<void>>()
+
+    // Runs `op` once the writes already queued for `filePaths` are done
+    const queueWrite = (filePaths: string[], op: () => Promise<void>): Promise<void> => {
+        const previous = filePaths.map((f) => pendingWrites.get(f))
+        const write = (async () => {
+            await Promise.allSettled(previous)
+            await op()
+        })()
+        const cleanup = () => {
+            for (const f of filePaths) {
+                if (pendingWrites.get(f) === write) pendingWrites.delete(f)
+            }
+        }
+        for (const f of filePaths) pendingWrites.set(f, write)
+        write.then(cleanup, cleanup)
+        return write
+    }
 
-                const globalPrefixes = computeMergePrefixes(allRawNames).map((p) => ({
-                    raw: p.raw,
-                    isSuffix: p.isSuffix
-                }))
-
-                await runWithConcurrency(
-                    fetched.map((item) => ({ item })),
-                    concurrency,
-                    async ({ item }) => {
-                        if (!item) return
-                        await fs.mkdir(item.outDir, { recursive: true })
-
-                        if (pool) {
-                            const written = await pool.process(
-                                { buffer: item.ab, byteOffset: 0, byteLength: item.ab.byteLength },
-                                item.outDir,
-                                {
-                                    disambiguate,
-                                    toIa,
-                                    mergeCommonNames,
-                                    mergeCommonPrefixes: globalPrefixes,
-                                    moduleNameFilters: moduleNameFilterPatterns
-                                }
-                            )
-                            if (written === 0) {
-                                skippedBundles++
-                                return
-                            }
-                            filesWritten += written
-                            return
-                        }
-
-                        const text = Buffer.from(item.ab).toString('utf-8')
-                        const files = await buildExportFiles(text, {
-                            disambiguate,
-                            toIa,
-                            mergeCommonNames,
-                            mergeCommonPrefixes: globalPrefixes,
-                            moduleNameFilters: moduleNameFilterPatterns
-                        })
-                        if (files.length === 0) {
-                            skippedBundles++
-                            return
-                        }
-                        await writeExportFiles(item.outDir, files)
-                        filesWritten += files.length
-                    }
+    // Claim token (the module as written) -> its bundle, for the suffixes a later claim moves
+    const writtenModules = new Map<unknown, BundleJob>()
+
+    // Rewrites an already written module under its new suffix
+    const moveOutput = (move: OutputMove): Promise<void> => {
+        const info = move.token as ExportFileInfo
+        const job = writtenModules.get(info)!
+        const from = path.join(outputDir, move.from)
+        const to = path.join(outputDir, move.to)
+        return queueWrite([from, to], async () => {
+            const data = await fs.readFile(from)
+            const sidecars: ExportFileSidecars = {}
+            if (sourceMaps) sidecars.map = JSON.parse(await fs.readFile(`${from}.map`, 'utf-8'))
+            if (declarations) sidecars.dts = await fs.readFile(declarationPath(from), 'utf-8')
+            const moved = withFileName(
+                info,
+                data,
+                sidecars,
+                path.relative(job.outDir, to),
+                move.suffix
+            )
+            Object.assign(info, moved.info)
+            if (moved.sidecars.map) {
+                await writeIfChanged(
+                    `${to}.map`,
+                    Buffer.from(JSON.stringify(moved.sidecars.map), 'utf-8')
                 )
             }
+            if (moved.sidecars.dts !== undefined) {
+                await writeIfChanged(declarationPath(to), Buffer.from(moved.sidecars.dts, 'utf-8'))
+            }
+            await writeIfChanged(to, moved.data)
+        })
+    }
+
+    // Claims the file name synchronously (so claims follow the order modules arrive in) and
+    // records the module in `written` unless it is a duplicate or lost a collision.
+    const writeOutput = (
+        job: BundleJob,
+        idx: number,
+        written: ExportFileInfo[],
+        info: ExportFileInfo,
+        data: Buffer,
+        sidecars: ExportFileSidecars
+    ): Promise<void> => {
+        const claim = names.claim({
+            file: toPosixRelative(outputDir, path.join(job.outDir, info.fileName)),
+            moduleName: info.moduleName,
+            hash: info.hash,
+            source: job.source,
+            rank: idx,
+            token: info
+        })
+        if (claim.action !== 'write') return Promise.resolve()
+        if (claim.suffix) {
+            const suffixed = withSuffix(info, data, sidecars, claim.suffix)
+            // The claim's token stays the entry in `written`
+            Object.assign(info, suffixed.info)
+            ;({ data, sidecars } = suffixed)
+        }
+        written.push(info)
+        if (sharedOutDirs) writtenModules.set(info, job)
+        const moves = (claim.moves ?? []).map(moveOutput)
+
+        const filePath = path.join(job.outDir, info.fileName)
+        const { map, dts } = sidecars
+        const write = queueWrite([filePath], async () => {
+            await Promise.all(moves)
+            if (map) {
+                await writeIfChanged(`${filePath}.map`, Buffer.from(JSON.stringify(map), 'utf-8'))
+            }
+            if (dts !== undefined) {
+                await writeIfChanged(declarationPath(filePath), Buffer.from(dts, 'utf-8'))
+            }
+            await writeIfChanged(filePath, data)
+            // A replaced file was already counted
+            if (claim.replaces) return
+            onProgress?.({
+                type: 'file-written',
+                source: job.source,
+                file: claim.file,
+                written: ++writtenSoFar
+            })
+        })
+        return write
+    }
+
+    const pool = sharedPool ?? (poolSize > 0 ? new WorkerPool(poolSize) : null)
+
+    const exportJob = async (job: BundleJob, idx: number) => {
+        // Local bundles are scanned straight from disk when nothing needs the whole bundle in memory
+        const streamFile = !pool && !mergeCommonNames && job.file ? job.file : null
+        let ab: ArrayBuffer | null = null
+        if (preloaded?.[idx]) {
+            ab = preloaded[idx]
+            preloaded[idx] = null
+        } else if (!streamFile) {
+            ab = await loadBundle(job, idx)
+        } else if (onProgress) {
+            onProgress({ type: 'bundle-fetching', source: job.source, index: idx })
+            const { size } = await fs.stat(streamFile)
+            onProgress({ type: 'bundle-fetched', source: job.source, index: idx, bytes: size })
+        }
+        await fs.mkdir(job.outDir, { recursive: true })
+
+        const buildOptions = {
+            // Names are resolved across bundles by writeOutput
+            disambiguate: false,
+            format,
+            mergeCommonNames,
+            mergeCommonPrefixes,
+            ...filterPatterns,
+            moduleNames: moduleNames ? [...moduleNames] : null,
+            sourceMap: sourceMaps,
+            sourceMapSource: job.file ? pathToFileURL(job.file).href : job.source,
+            declarations,
+            filterStats: { matched: 0, excluded: 0, dependencies: 0 },
+            diagnostics: [] as ParseDiagnostic[]
+        }
+
+        const relOutDir = toPosixRelative(outputDir, job.outDir)
+        // Same bytes exported into the same place with the same merge groups -> same files
+        let bundleKey: string | null = null
+        // Shared dirs: what a bundle writes depends on the other bundles, so it is never reused
+        if (incremental && !sharedOutDirs) {
+            const bundleHash = ab ? sha1Hex(Buffer.from(ab)) : await sha1File(streamFile!)
+            bundleKey = sha1Hex(
+                JSON.stringify([
+                    bundleHash,
+                    relOutDir,
+                    mergeCommonPrefixes,
+                    // The maps name the bundle they point into
+                    ...(sourceMaps ? [buildOptions.sourceMapSource] : [])
+                ])
+            )
+        }
 
-            return {
-                inputFile,
-                outputDir,
-                mode,
-                bundlesProcessed,
-                filesWritten,
-                skippedBundles
+        let files: ExportFileInfo[] | null = null
+        let diagnostics = buildOptions.diagnostics
+        const cached = bundleKey ? reusableBundles[bundleKey] : undefined
+        if (cached) {
+            const rels = cached.modules.flatMap((m) => {
+                const rel = toPosixRelative(outputDir, path.join(job.outDir, m.fileName))
+                return [
+                    rel,
+                    ...(sourceMaps ? [`${rel}.map`] : []),
+                    ...(declarations ? [declarationPath(rel)] : [])
+                ]
+            })
+            const intact = (
+                await Promise.all(
+                    rels.map(
+                        async (rel) =>
+                            rel in previousFiles && (await fileExists(path.join(outputDir, rel)))
+                    )
+                )
+            ).every(Boolean)
+            if (intact) {
+                for (const rel of rels) nextCache.files[rel] = previousFiles[rel]
+                writtenSoFar += cached.modules.length
+                files = cached.modules
+                reusedReports.push(cached)
+                if (cached.filterStats) addFilterStats(cached.filterStats)
+                selectedModules[idx] = cached.filterStats
+                    ? cached.filterStats.matched + (cached.filterStats.dependencies ?? 0)
+                    : files.length
+                diagnostics = cached.diagnostics ?? []
             }
         }
 
-        await fs.mkdir(outputDir, { recursive: true })
-        bundlesProcessed = 1
-        const toIa = options.toIa === true
-        const mergeCommonNames = options.mergeCommonNames === true
-
-        if (pool) {
-            const buf = await fs.readFile(inputFile)
-            const canTransferZeroCopy =
-                buf.byteOffset === 0 && buf.byteLength === (buf.buffer as ArrayBuffer).byteLength
-            const ab = canTransferZeroCopy
-                ? (buf.buffer as ArrayBuffer)
-                : new Uint8Array(buf).slice().buffer
-            const written = await pool.process(
-                {
-                    buffer: ab,
-                    byteOffset: 0,
-                    byteLength: buf.byteLength
-                },
-                outputDir,
-                {
-                    disambiguate: true,
-                    toIa,
-                    mergeCommonNames,
-                    mergeCommonPrefixes: null,
-                    moduleNameFilters: moduleNameFilterPatterns
+        if (!files) {
+            const written: ExportFileInfo[] = []
+            const write = (info: ExportFileInfo, data: Buffer, sidecars: ExportFileSidecars) => {
+                signal?.throwIfAborted()
+                return writeOutput(job, idx, written, info, data, sidecars)
+            }
+            if (streamFile) {
+                const stream = createReadStream(streamFile)
+                for await (const { content, map, dts, ...info } of streamExportFiles(
+                    stream,
+                    buildOptions
+                )) {
+                    await write(info, Buffer.from(content, 'utf-8'), { map, dts })
                 }
-            )
-            if (written === 0) {
-                skippedBundles = 1
+            } else if (pool) {
+                // The abort listener has already cancelled the pool
+                signal?.throwIfAborted()
+                await pool.process(
+                    { buffer: ab!, byteOffset: 0, byteLength: ab!.byteLength },
+                    write,
+                    buildOptions
+                )
             } else {
-                filesWritten = written
+                const built = await buildExportFiles(
+                    Buffer.from(ab!).toString('utf-8'),
+                    buildOptions
+                )
+                await runWithConcurrency(built, 20, async ({ content, map, dts, ...info }) => {
+                    await write(info, Buffer.from(content, 'utf-8'), { map, dts })
+                })
             }
-
-            return {
-                inputFile,
-                outputDir,
-                mode,
-                bundlesProcessed,
-                filesWritten,
-                skippedBundles
+            files = written.filter((f) => !names.isDropped(f))
+            addFilterStats(buildOptions.filterStats)
+            selectedModules[idx] =
+                buildOptions.filterStats.matched + buildOptions.filterStats.dependencies
+
+            if (bundleKey) {
+                // Each bundle has its own dir here, so its reports are the ones inside it
+                const inOutDir = (r: { file: string }) =>
+                    !relOutDir || r.file.startsWith(`${relOutDir}/`)
+                nextCache.bundles[bundleKey] = {
+                    outDir: relOutDir,
+                    modules: files,
+                    duplicates: names.duplicates.filter(inOutDir),
+                    collisions: names.collisions.filter(inOutDir),
+                    filterStats: buildOptions.filterStats,
+                    ...(diagnostics.length > 0 ? { diagnostics } : {})
+                }
             }
         }
 
-        const fileContent = await fs.readFile(inputFile, 'utf-8')
-        const files = await buildExportFiles(fileContent, {
-            toIa,
-            mergeCommonNames,
-            mergeCommonPrefixes: null,
-            moduleNameFilters: moduleNameFilterPatterns
+        parseDiagnostics[idx] = diagnostics.map((d) => ({ ...d, source: job.source }))
+        for (const d of diagnostics) {
+            onProgress?.({ type: 'warning', message: formatParseDiagnostic(d), source: job.source })
+        }
+        if (strict && diagnostics.length > 0) {
+            throw new Error(
+                `${diagnostics.length} module(s) could not be extracted (strict): ${formatParseDiagnostic(diagnostics[0])}`
+            )
+        }
+        exportedFiles[idx] = files
+        onProgress?.({
+            type: 'bundle-parsed',
+            source: job.source,
+            index: idx,
+            modules: files.length,
+            reused: !!cached && files === cached.modules
+        })
+    }
+    // Bundles still in the workers are rejected right away
+    const cancelPool = () => void pool?.cancel(new Error('Export aborted'))
+    signal?.addEventListener('abort', cancelPool, { once: true })
+    try {
+        await runWithConcurrency(jobs, concurrency, async (job, idx) => {
+            if (failed.has(idx) || stopped(idx)) return
+            try {
+                await exportJob(job, idx)
+            } catch (e) {
+                recordFailure(job, idx, e)
+            }
         })
+    } finally {
+        signal?.removeEventListener('abort', cancelPool)
+        if (pool && pool !== sharedPool) await pool.destroy()
+    }
+    // A stopped bundle can leave writes behind
+    await Promise.allSettled(pendingWrites.values())
+    const aborted = unfinished.size > 0
+
+    // Only now: with first-wins, a later bundle can still replace an earlier bundle's file
+    const manifestModules: ExportManifestModule[][] = []
+    exportedFiles.forEach((jobFiles, idx) => {
+        const files = jobFiles.filter((f) => !names.isDropped(f))
         if (files.length === 0) {
-            skippedBundles = 1
-            return {
-                inputFile,
-                outputDir,
-                mode,
-                bundlesProcessed,
-                filesWritten,
-                skippedBundles
+            if (selectedModules[idx] > 0) duplicateBundles++
+            else skippedBundles++
+            return
+        }
+        filesWritten += files.length
+        manifestModules[idx] = toManifestModules(
+            outputDir,
+            jobs[idx].outDir,
+            jobs[idx].source,
+            files
+        )
+        // By final content: a file can be written more than once (replaced, moved to a suffix)
+        for (const m of manifestModules[idx]) {
+            if (previousFiles[m.file] === nextCache.files[m.file]) unchangedFiles++
+            else updatedFiles++
+        }
+    })
+    const duplicates = [...reusedReports.flatMap((r) => r.duplicates ?? []), ...names.duplicates]
+    const collisionReports = [
+        ...reusedReports.flatMap((r) => r.collisions ?? []),
+        ...names.collisions
+    ]
+    const duplicateSources = new Map(duplicates.map((d) => [d.file, d.sources]))
+    for (const m of manifestModules.flat()) {
+        const sources = duplicateSources.get(m.file)
+        if (sources && sources.length > 1) m.sources = sources
+    }
+
+    let declarationsFile: string | null = null
+    if (declarations && !aborted) {
+        // Tracked like the module files, so an incremental run without declarations removes it
+        declarationsFile = path.join(outputDir, MODULE_DECLARATIONS_FILE_NAME)
+        const index = moduleDeclarationsIndex(manifestModules.flat())
+        await writeIfChanged(declarationsFile, Buffer.from(index, 'utf-8'))
+    }
+
+    if (incremental) {
+        // Modules that disappeared since the previous run. When some bundle failed or was stopped
+        // its old files can't be told apart from removed modules, so they are all kept (and
+        // tracked) for now.
+        for (const rel of Object.keys(previousFiles)) {
+            if (rel in nextCache.files) continue
+            if (failed.size > 0 || aborted) {
+                nextCache.files[rel] = previousFiles[rel]
+                continue
             }
+            const filePath = path.join(outputDir, rel)
+            try {
+                await fs.unlink(filePath)
+                removedFiles++
+            } catch {}
+            await removeEmptyDirs(path.dirname(filePath), outputDir)
         }
-        await writeExportFiles(outputDir, files)
-        filesWritten = files.length
-        return {
+        await writeExportCache(outputDir, nextCache)
+    }
+
+    let manifestFile: string | null = null
+    if (emitManifest && !aborted) {
+        manifestFile = await writeManifest(outputDir, {
+            version: MANIFEST_VERSION,
+            createdAt: new Date().toISOString(),
             inputFile,
-            outputDir,
             mode,
-            bundlesProcessed,
-            filesWritten,
-            skippedBundles
+            modules: manifestModules.flat(),
+            ...(collisionReports.length > 0 ? { collisions: collisionReports } : {})
+        })
+    }
+
+    const result: ExportModulesResult = {
+        inputFile,
+        outputDir,
+        mode,
+        bundlesProcessed: jobs.length - failed.size - unfinished.size,
+        filesWritten,
+        skippedBundles,
+        duplicateBundles,
+        unchangedFiles,
+        updatedFiles,
+        removedFiles,
+        manifestFile,
+        declarationsFile,
+        failedBundles,
+        duplicates,
+        collisions: collisionReports,
+        missingDependencies,
+        matchedModules: filterStats.matched,
+        excludedModules: filterStats.excluded,
+        dependencyModules: filterStats.dependencies,
+        parseDiagnostics: parseDiagnostics.flat()
+    }
+    if (aborted) throw new ExportAbortedError(result, signal!.reason)
+    if (onProgress) {
+        if (missingDependencies.length > 0) {
+            onProgress({
+                type: 'warning',
+                message: `Dependencies not defined in any bundle: ${missingDependencies.join(', ')}`
+            })
         }
-    } finally {
+        for (const c of collisionReports) {
+            onProgress({
+                type: 'warning',
+                message: `${c.modules.length} different modules named ${JSON.stringify(c.moduleName)} want ${c.file} (${c.policy})`
+            })
+        }
+        onProgress({ type: 'done', result })
+    }
+    return { result, modules: manifestModules.flat() }
+}
+
+// `signal` stops the current run and closes the watcher
+export type WatchExportOptions = ExportModulesOptions & {
+    // Quiet time after the last change before exporting again (default: 300)
+    debounceMs?: number
+    // Called after every run, the first one included
+    onRun?: (summary: WatchRunSummary) => void
+    // A failed run (other than the first) is reported here and watching goes on
+    onError?: (error: Error) => void
+}
+
+export type WatchRunSummary = ModuleFileChanges & {
+    result: ExportModulesResult
+    // True for the initial export, where every module counts as added
+    firstRun: boolean
+}
+
+export type ExportWatcher = {
+    close: () => Promise<void>
+}
+
+// What to watch for an input: the bundle/list/HAR file itself, the local bundles of a list, or
+// the .js files of a directory or glob (except the export's own output)
+async function watchTargetsFor(result: ExportModulesResult): Promise<WatchTargets> {
+    const { inputFile, outputDir } = result
+    if (result.mode === 'dir') {
+        const root = isGlobPattern(inputFile) ? globBaseDir(inputFile) : inputFile
+        return {
+            files: [],
+            dirs: [root],
+            accept: (file) => path.extname(file).toLowerCase() === '.js',
+            ignore: [outputDir]
+        }
+    }
+    const files = [inputFile]
+    if (result.mode === 'json') {
+        const baseDir = path.dirname(inputFile)
+        for (const url of await readUrlList(inputFile)) {
+            const localPath = resolveLocalBundlePath(url, baseDir)
+            if (localPath) files.push(localPath)
+        }
+    }
+    return { files, dirs: [], ignore: [outputDir] }
+}
+
+// Exports once, then again (incrementally, on the same worker pool) whenever the input changes.
+// Rejects if the first export fails.
+export async function watchExport(options: WatchExportOptions): Promise<ExportWatcher> {
+    const { debounceMs = 300, onRun, onError, ...exportOptions } = options
+    if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+        throw new Error(`Invalid debounceMs value: ${String(debounceMs)}`)
+    }
+    const runOptions: ExportModulesOptions = { ...exportOptions, incremental: true }
+
+    // Invalid values are left to exportModules() to report
+    const workers = Number(options.workers ?? 0)
+    const poolSize = Number.isFinite(workers) && workers > 0 ? Math.floor(workers) : 0
+    let pool = poolSize > 0 ? new WorkerPool(poolSize) : null
+
+    let previous: ExportManifestModule[] | null = null
+    const run = async () => {
+        const { result, modules } = await runExport(runOptions, pool)
+        const changes = diffModuleFiles(previous ?? [], modules)
+        onRun?.({ ...changes, result, firstRun: previous === null })
+        previous = modules
+        return result
+    }
+
+    let first: ExportModulesResult
+    try {
+        first = await run()
+    } catch (e) {
+        if (pool) await pool.destroy()
+        throw e
+    }
+
+    let closed = false
+    let running: Promise<void> | null = null
+    let again = false
+    const rerun = () => {
+        if (running) {
+            again = true
+            return
+        }
+        running = (async () => {
+            do {
+                again = false
+                try {
+                    const result = await run()
+                    // A JSON list may now point at other local bundles
+                    if (!closed) await watcher.update(await watchTargetsFor(result))
+                } catch (e: any) {
+                    if (!closed) onError?.(e instanceof Error ? e : new Error(String(e)))
+                    // A worker may have died with the run
+                    if (pool) {
+                        await pool.destroy()
+                        pool = new WorkerPool(poolSize)
+                    }
+                }
+            } while (again && !closed)
+        })().finally(() => {
+            running = null
+        })
+    }
+
+    const watcher = new ChangeWatcher(debounceMs, rerun)
+    await watcher.update(await watchTargetsFor(first))
+
+    const close = async () => {
+        if (closed) return
+        closed = true
+        watcher.close()
+        if (running) await running
         if (pool) await pool.destroy()
     }
+    if (options.signal?.aborted) await close()
+    else options.signal?.addEventListener('abort', () => void close(), { once: true })
+    return { close }
 }
 
-if (isMainThread && require.main === module) {
-    const args = process.argv.slice(2)
+// Only the flags that were given, so unset ones don't override the config file
+function exportOptionsFromFlags(args: string[]): Partial<ExportModulesOptions> {
+    const options: Partial<ExportModulesOptions> = {}
+
+    for (const [on, off, key] of BOOLEAN_FLAGS) {
+        if (hasFlag(args, on) && hasFlag(args, off)) {
+            throw new Error(`Conflicting flags: ${on} and ${off}`)
+        }
+        if (hasFlag(args, on)) (options as Record<string, unknown>)[key] = true
+        if (hasFlag(args, off)) (options as Record<string, unknown>)[key] = false
+    }
+    // Same as --flat
+    if (hasFlag(args, '--no-subdirs')) {
+        if (options.flat === false) throw new Error('Conflicting flags: --no-subdirs and --no-flat')
+        options.noSubdirs = true
+    }
+    // Also turns off the config's noSubdirs
+    if (options.flat === false) options.noSubdirs = false
+
+    const filterPatterns = parseModuleFilterPatterns(args)
+    for (const [key, patterns] of Object.entries(filterPatterns)) {
+        if (patterns.length > 0) (options as Record<string, unknown>)[key] = patterns
+    }
+
+    if (hasFlag(args, '--workers')) {
+        const suggestedWorkers = Math.max(1, os.cpus().length - 1)
+        const workersRaw = getArgValue(args, '--workers')
+        const workers = workersRaw === null ? suggestedWorkers : Number(workersRaw)
+        if (!Number.isFinite(workers) || workers < 0) {
+            throw new Error(`Invalid --workers value: ${String(workersRaw)}`)
+        }
+        options.workers = workers
+    }
+    const concRaw = getArgValue(args, '--concurrency')
+    if (concRaw !== null) {
+        const concurrency = Number(concRaw)
+        if (!Number.isFinite(concurrency) || concurrency <= 0) {
+            throw new Error(`Invalid --concurrency value: ${String(concRaw)}`)
+        }
+        options.concurrency = concurrency
+    }
+
+    const formatRaw = getArgValue(args, '--format')
+    if (formatRaw !== null) {
+        if (!OUTPUT_FORMATS.includes(formatRaw as OutputFormat)) {
+            throw new Error(`Invalid --format value: ${formatRaw}. Use raw, ia or pretty`)
+        }
+        options.format = formatRaw as OutputFormat
+    }
+    const collisionsRaw = getArgValue(args, '--collisions')
+    if (collisionsRaw !== null) {
+        if (!COLLISION_POLICIES.includes(collisionsRaw as CollisionPolicy)) {
+            throw new Error(
+                `Invalid --collisions value: ${collisionsRaw}. Use suffix, first-wins or last-wins`
+            )
+        }
+        options.collisions = collisionsRaw as CollisionPolicy
+    }
+    const retries = parseNonNegativeNumberFlag(args, '--retries')
+    if (retries !== undefined) options.retries = retries
+    const retryDelay = parseNonNegativeNumberFlag(args, '--retry-delay')
+    if (retryDelay !== undefined) options.retryDelay = retryDelay
+    const timeout = parseNonNegativeNumberFlag(args, '--timeout')
+    if (timeout !== undefined) options.timeout = timeout
+    const headers = parseHeaderFlags(args)
+    if (headers) options.headers = headers
+    const depsDepthRaw = getArgValue(args, '--deps-depth')
+    if (depsDepthRaw !== null) {
+        const depsDepth = Number(depsDepthRaw)
+        if (!Number.isInteger(depsDepth) || depsDepth < 0) {
+            throw new Error(`Invalid --deps-depth value: ${String(depsDepthRaw)}`)
+        }
+        options.depsDepth = depsDepth
+    }
+    const cacheDir = getArgValue(args, '--cache-dir')
+    if (cacheDir !== null) options.cacheDir = cacheDir
+    const proxy = getArgValue(args, '--proxy')
+    if (proxy !== null) options.proxy = proxy
+
+    return options
+}
+
+// Ctrl+C and --time-limit stop the export through an AbortSignal; a second Ctrl+C quits at once
+function createCliAbort(args: string[], outer: AbortSignal | undefined) {
+    const timeLimitRaw = getArgValue(args, '--time-limit')
+    const timeLimit = timeLimitRaw === null ? null : Number(timeLimitRaw)
+    if (timeLimit !== null && (!Number.isFinite(timeLimit) || timeLimit <= 0)) {
+        throw new Error(`Invalid --time-limit value: ${String(timeLimitRaw)}`)
+    }
+
+    const controller = new AbortController()
+    let interrupted = false
+    const onSigint = () => {
+        if (controller.signal.aborted) process.exit(130)
+        interrupted = true
+        console.error('\nStopping... (press Ctrl+C again to quit now)')
+        controller.abort(new Error('interrupted'))
+    }
+    process.on('SIGINT', onSigint)
+    const timer =
+        timeLimit === null
+            ? null
+            : setTimeout(
+                  () => controller.abort(new Error(`time limit of ${timeLimit}ms reached`)),
+                  timeLimit
+              )
+    timer?.unref()
+    // A signal from a .js config still works
+    const onOuterAbort = () => controller.abort(outer!.reason)
+    outer?.addEventListener('abort', onOuterAbort, { once: true })
+
+    return {
+        signal: controller.signal,
+        // 130 after Ctrl+C, like a shell
+        exitCode: () => (interrupted ? 130 : 1),
+        dispose: () => {
+            process.off('SIGINT', onSigint)
+            if (timer) clearTimeout(timer)
+            outer?.removeEventListener('abort', onOuterAbort)
+        }
+    }
+}
+
+async function runExportCommand(args: string[]) {
     const positionals = getPositionals(args)
 
     assertNoUnknownFlags(args)
@@ -1303,22 +2282,285 @@ if (isMainThread && require.main === module) {
         printUsageAndExit()
     }
 
+    const config = await loadExportConfig({
+        configFile: getArgValue(args, '--config') ?? undefined,
+        profile: getArgValue(args, '--profile') ?? undefined
+    })
+    const flagOptions = exportOptionsFromFlags(args)
+    // Flags override the config file
+    const options: Partial<ExportModulesOptions> = {
+        ...withoutFormat(config.options, flagOptions),
+        ...flagOptions
+    }
+    if (positionals[0]) options.inputFile = positionals[0]
+    if (positionals[1]) options.outputDir = positionals[1]
+
+    if (!options.inputFile) {
+        printUsageAndExit()
+    }
+
+    const moduleFilters = compileModuleFilters(normalizeModuleFilterPatterns(options))
+
+    const json = hasFlag(args, '--json')
+    const progress = hasFlag(args, '--progress') ? createProgressDisplay(process.stderr) : null
+    // Warnings and failed bundles, for --json
+    let diagnostics: CliDiagnostic[] = []
+    const configProgress = options.onProgress
+    options.onProgress = (event) => {
+        configProgress?.(event)
+        progress?.onProgress(event)
+        if (event.type === 'start') diagnostics = []
+        if (event.type === 'warning') {
+            diagnostics.push({ level: 'warning', message: event.message, source: event.source })
+        } else if (event.type === 'bundle-failed') {
+            diagnostics.push({ level: 'error', message: event.error, source: event.source })
+        }
+    }
+
+    const abort = createCliAbort(args, options.signal)
+    options.signal = abort.signal
+
+    if (hasFlag(args, '--watch')) {
+        await watchExport({
+            ...(options as ExportModulesOptions),
+            onRun: (summary) => {
+                if (!json) {
+                    printWatchRun(summary, moduleFilters, !!progress)
+                    return
+                }
+                // One line per run
+                const { result, added, changed, removed } = summary
+                console.log(JSON.stringify({ ...result, added, changed, removed, diagnostics }))
+            },
+            onError: (e) => {
+                progress?.finish()
+                console.error(`Export failed: ${e.message}`)
+            }
+        })
+        if (!json) console.log('Watching for changes (Ctrl+C to stop)...')
+        return
+    }
+
+    let result: ExportModulesResult
+    let aborted: ExportAbortedError | null = null
+    try {
+        result = await exportModules(options as ExportModulesOptions)
+    } catch (e) {
+        if (!(e instanceof ExportAbortedError)) throw e
+        aborted = e
+        result = e.result
+        process.exitCode = abort.exitCode()
+    } finally {
+        progress?.finish()
+        abort.dispose()
+    }
+    if (json) {
+        const out = { ...result, ...(aborted ? { aborted: true } : {}), diagnostics }
+        process.stdout.write(JSON.stringify(out, null, 2) + '\n')
+        return
+    }
+    printExportReport(result, moduleFilters, !!progress)
+    if (aborted) {
+        console.error(
+            `${aborted.message}. Bundles exported: ${result.bundlesProcessed}, files in: ${result.outputDir}`
+        )
+        return
+    }
+    if (options.incremental) {
+        console.log(
+            `Unchanged: ${result.unchangedFiles}, updated: ${result.updatedFiles}, removed: ${result.removedFiles}`
+        )
+    }
+    console.log(`Export finished. Files saved in: ${result.outputDir}`)
+}
+
+// `failuresShown`: --progress already printed the failed bundles
+function printExportReport(
+    result: ExportModulesResult,
+    moduleFilters: ModuleFilters,
+    failuresShown = false
+) {
+    if (result.filesWritten === 0) {
+        console.error(noModulesMessage(moduleFilters))
+    }
+    if (failuresShown && result.failedBundles.length > 0) {
+        console.error(`Failed bundles: ${result.failedBundles.length}`)
+    } else {
+        for (const f of result.failedBundles) {
+            console.error(`Failed bundle ${f.source}: ${f.error}`)
+        }
+    }
+    const copies = result.duplicates.reduce((n, d) => n + d.copies - 1, 0)
+    if (copies > 0) {
+        console.log(`Identical module copies written once: ${copies}`)
+    }
+    if (hasModuleFilters(moduleFilters)) {
+        const deps =
+            result.dependencyModules > 0 ? `, dependencies: ${result.dependencyModules}` : ''
+        console.log(
+            `Modules matched: ${result.matchedModules}, excluded: ${result.excludedModules}${deps}`
+        )
+    }
+    printParseDiagnostics(result.parseDiagnostics)
+    if (result.missingDependencies.length > 0) {
+        console.error(
+            `Dependencies not defined in any bundle (${result.missingDependencies.length}): ${result.missingDependencies.join(', ')}`
+        )
+    }
+    if (result.collisions.length > 0) {
+        const where = result.manifestFile ? ' (listed in manifest.json)' : ''
+        console.log(`Name collisions: ${result.collisions.length}${where}`)
+    }
+}
+
+function printParseDiagnostics(diagnostics: Array<ParseDiagnostic & { source: string }>) {
+    if (diagnostics.length === 0) return
+    console.error(`Modules that could not be extracted (${diagnostics.length}):`)
+    for (const d of diagnostics) {
+        console.error(`  ${d.source}: ${formatParseDiagnostic(d)}`)
+        console.error(`    ${d.snippet}`)
+    }
+}
+
+type CliDiagnostic = { level: 'warning' | 'error'; message: string; source?: string }
+
+// --progress: a status line on stderr redrawn as the export goes (a line per bundle when stderr
+// is not a terminal). Failed bundles are printed as they happen.
+function createProgressDisplay(stream: NodeJS.WriteStream) {
+    const tty = !!stream.isTTY
+    let bundles = 0
+    let done = 0
+    let failedCount = 0
+    let written = 0
+    let current = ''
+    let drawn = false
+    let lastDraw = 0
+
+    const clear = () => {
+        if (!drawn) return
+        stream.write('\r\x1b[K')
+        drawn = false
+    }
+    const draw = (force: boolean) => {
+        const now = Date.now()
+        if (!tty || (!force && now - lastDraw < 100)) return
+        lastDraw = now
+        const parts = [`[${done}/${bundles} bundles]`, `${written} files written`]
+        if (failedCount > 0) parts.push(`${failedCount} failed`)
+        if (current) parts.push(current)
+        const width = Math.max(20, (stream.columns || 80) - 1)
+        const line = parts.join(', ')
+        stream.write('\r\x1b[K' + (line.length > width ? line.slice(0, width - 3) + '...' : line))
+        drawn = true
+    }
+    const print = (line: string) => {
+        clear()
+        stream.write(line + '\n')
+        draw(true)
+    }
+
+    const onProgress = (event: ExportProgressEvent) => {
+        switch (event.type) {
+            case 'start':
+                bundles = event.bundles
+                done = failedCount = written = 0
+                current = ''
+                break
+            case 'bundle-fetching':
+                current = `fetching ${event.source}`
+                break
+            case 'bundle-fetched':
+                current = `exporting ${event.source}`
+                break
+            case 'bundle-parsed':
+                done++
+                current = ''
+                if (event.reused) written += event.modules
+                if (!tty) {
+                    const note = event.reused ? ' (unchanged)' : ''
+                    print(`[${done}/${bundles}] ${event.source}: ${event.modules} modules${note}`)
+                }
+                break
+            case 'bundle-failed':
+                done++
+                failedCount++
+                current = ''
+                print(`Failed bundle ${event.source}: ${event.error}`)
+                break
+            case 'file-written':
+                written = event.written
+                break
+            case 'done':
+                clear()
+                return
+        }
+        draw(event.type !== 'file-written')
+    }
+
+    return { onProgress, finish: clear }
+}
+
+// Changed module files listed per watch run, per kind of change
+const MAX_LISTED_CHANGES = 20
+
+function printWatchRun(
+    summary: WatchRunSummary,
+    moduleFilters: ModuleFilters,
+    failuresShown: boolean
+) {
+    printExportReport(summary.result, moduleFilters, failuresShown)
+    if (summary.firstRun) {
+        console.log(`Export finished. Files saved in: ${summary.result.outputDir}`)
+        return
+    }
+    const { added, changed, removed } = summary
+    const time = new Date().toLocaleTimeString()
+    console.log(
+        `[${time}] Modules added: ${added.length}, changed: ${changed.length}, removed: ${removed.length}`
+    )
+    const groups: Array<[string, string[]]> = [
+        ['+', added],
+        ['~', changed],
+        ['-', removed]
+    ]
+    for (const [mark, files] of groups) {
+        for (const file of files.slice(0, MAX_LISTED_CHANGES)) console.log(`  ${mark} ${file}`)
+        if (files.length > MAX_LISTED_CHANGES) {
+            console.log(`  ${mark} ... and ${files.length - MAX_LISTED_CHANGES} more`)
+        }
+    }
+}
+
+async function runGraphCommand(args: string[]) {
+    const positionals = getPositionals(
+        args,
+        new Set(['--format', '--root', '--depth', '--concurrency'])
+    )
+
+    assertNoUnknownFlags(
+        args,
+        new Set(['--format', '--root', '--depth', '--concurrency', '--help', '-h'])
+    )
+
+    if (hasFlag(args, '--help') || hasFlag(args, '-h')) {
+        printGraphUsageAndExit()
+    }
+
     const inputArg = positionals[0]
     const outputArg = positionals[1]
 
     if (!inputArg) {
-        printUsageAndExit()
+        printGraphUsageAndExit()
     }
 
-    const moduleNameFilterPatterns = parseModuleNameFilterPatterns(args)
-    const emptyResultMessage = noModulesMessage(compileModuleNameFilters(moduleNameFilterPatterns))
-    const suggestedWorkers = Math.max(1, os.cpus().length - 1)
-    const workersRaw = getArgValue(args, '--workers')
-    const workersFlagPresent = hasFlag(args, '--workers')
-    const workers =
-        workersRaw === null ? (workersFlagPresent ? suggestedWorkers : 0) : Number(workersRaw)
-    if (!Number.isFinite(workers) || workers < 0) {
-        throw new Error(`Invalid --workers value: ${String(workersRaw)}`)
+    const format = (getArgValue(args, '--format') || 'json') as DependencyGraphFormat
+    if (format !== 'json' && format !== 'dot' && format !== 'mermaid') {
+        throw new Error(`Invalid --format value: ${String(format)}. Use json, dot or mermaid`)
+    }
+    const depthRaw = getArgValue(args, '--depth')
+    const depth = depthRaw === null ? undefined : Number(depthRaw)
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+        throw new Error(`Invalid --depth value: ${String(depthRaw)}`)
     }
     const concRaw = getArgValue(args, '--concurrency')
     const concurrency = concRaw ? Number(concRaw) : undefined
@@ -1326,23 +2568,81 @@ if (isMainThread && require.main === module) {
         throw new Error(`Invalid --concurrency value: ${String(concRaw)}`)
     }
 
-    const run = async () => {
-        const result = await exportModules({
-            inputFile: inputArg,
-            outputDir: outputArg,
-            toIa: hasFlag(args, '--to-ia'),
-            mergeCommonNames: hasFlag(args, '--merge-common-names'),
-            workers,
-            concurrency,
-            flat: hasFlag(args, '--flat'),
-            noSubdirs: hasFlag(args, '--no-subdirs'),
-            moduleNameFilters: moduleNameFilterPatterns
-        })
-        if (result.filesWritten === 0) {
-            console.error(emptyResultMessage)
-        }
-        console.log(`Export finished. Files saved in: ${result.outputDir}`)
+    const graph = await buildDependencyGraph({
+        inputFile: inputArg,
+        root: getArgValue(args, '--root') ?? undefined,
+        depth,
+        concurrency
+    })
+    const text = formatDependencyGraph(graph, format)
+    // JSON output already lists them
+    if (format !== 'json') printParseDiagnostics(graph.diagnostics ?? [])
+
+    if (!outputArg) {
+        process.stdout.write(text)
+        return
+    }
+    const outFile = path.resolve(process.cwd(), outputArg)
+    await fs.mkdir(path.dirname(outFile), { recursive: true })
+    await fs.writeFile(outFile, text, 'utf-8')
+    console.log(`Graph written to: ${outFile}`)
+}
+
+async function runDiffCommand(args: string[]) {
+    const positionals = getPositionals(args, new Set(['--context', '--concurrency']))
+
+    assertNoUnknownFlags(
+        args,
+        new Set(['--unified', '--context', '--json', '--concurrency', '--help', '-h'])
+    )
+
+    if (hasFlag(args, '--help') || hasFlag(args, '-h')) {
+        printDiffUsageAndExit()
+    }
+
+    const [oldArg, newArg] = positionals
+    if (!oldArg || !newArg) {
+        printDiffUsageAndExit()
+    }
+
+    const contextRaw = getArgValue(args, '--context')
+    const context = contextRaw === null ? undefined : Number(contextRaw)
+    if (context !== undefined && (!Number.isInteger(context) || context < 0)) {
+        throw new Error(`Invalid --context value: ${String(contextRaw)}`)
+    }
+    const concRaw = getArgValue(args, '--concurrency')
+    const concurrency = concRaw ? Number(concRaw) : undefined
+    if (concRaw !== null && (!Number.isFinite(concurrency) || (concurrency as number) <= 0)) {
+        throw new Error(`Invalid --concurrency value: ${String(concRaw)}`)
+    }
+
+    const result = await diffBundles({
+        oldInput: oldArg,
+        newInput: newArg,
+        unified: hasFlag(args, '--unified'),
+        context,
+        concurrency
+    })
+
+    if (hasFlag(args, '--json')) {
+        process.stdout.write(JSON.stringify(result, null, 2) + '\n')
+        return
     }
+    process.stdout.write(formatBundleDiff(result))
+    printParseDiagnostics(result.diagnostics)
+}
+
+const subcommands: Record<string, (args: string[]) => Promise<void>> = {
+    graph: runGraphCommand,
+    diff: runDiffCommand
+}
+
+if (isMainThread && require.main === module) {
+    const args = process.argv.slice(2)
+    const subcommand = Object.prototype.hasOwnProperty.call(subcommands, args[0])
+        ? subcommands[args[0]]
+        : null
+    const run = subcommand ? () => subcommand(args.slice(1)) : () => runExportCommand(args)
 
     run().catch((e) => {
         console.error(e)
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import type { ModuleCollision } from './collisions'
+import type { ExportFileInfo } from './index'
+
+export const MANIFEST_FILE_NAME = 'manifest.json'
+export const MANIFEST_VERSION = 1
+
+export type ExportManifestModule = {
+    // Haste name as declared in __d("Name", ...). Empty when the call has no string name.
+    name: string
+    // Output file, relative to the manifest directory (always '/' separated)
+    file: string
+    // Bundle URL (JSON mode) or absolute bundle path (JS mode)
+    source: string
+    // Byte offsets of the __d(...) call inside the source bundle
+    start: number
+    end: number
+    // sha1 of the original __d(...) source (before --to-ia)
+    hash: string
+    deps: string[]
+    // Disambiguation suffix appended to the file name (e.g. '_2'), if any
+    suffix: string | null
+    // Every bundle with a byte-identical copy of the module (written once), when more than one
+    sources?: string[]
+}
+
+export type ExportManifest = {
+    version: typeof MANIFEST_VERSION
+    createdAt: string
+    inputFile: string
+    mode: string
+    modules: ExportManifestModule[]
+    // Different modules that wanted the same file, when there were any
+    collisions?: ModuleCollision[]
+}
+
+export function toManifestModules(
+    outputDir: string,
+    outDir: string,
+    source: string,
+    files: ExportFileInfo[]
+): ExportManifestModule[] {
+    return files.map((f) => ({
+        name: f.moduleName,
+        file: path.relative(outputDir, path.join(outDir, f.fileName)).split(path.sep).join('/'),
+        source,
+        start: f.start,
+        end: f.end,
+        hash: f.hash,
+        deps: f.deps,
+        suffix: f.suffix
+    }))
+}
+
+export async function writeManifest(outputDir: string, manifest: ExportManifest): Promise<string> {
+    const manifestFile = path.join(outputDir, MANIFEST_FILE_NAME)
+    await fs.mkdir(outputDir, { recursive: true })
+    await fs.writeFile(manifestFile, JSON.stringify(manifest, null, 2) + '\n', 'utf-8')
+    return manifestFile
+}
+
+// Accepts either the manifest file itself or the export directory that contains it.
+export async function readManifest(
+    manifestPath: string
+): Promise<{ manifest: ExportManifest; manifestFile: string }> {
+    let manifestFile = path.resolve(process.cwd(), manifestPath)
+    const stat = await fs.stat(manifestFile).catch(() => null)
+    if (stat && stat.isDirectory()) {
+        manifestFile = path.join(manifestFile, MANIFEST_FILE_NAME)
+    }
+
+    let raw: string
+    try {
+        raw = await fs.readFile(manifestFile, 'utf-8')
+    } catch (e: any) {
+        throw new Error(`Failed to read manifest at ${manifestFile}: ${e?.message || String(e)}`)
+    }
+
+    let manifest: ExportManifest
+    try {
+        manifest = JSON.parse(raw)
+    } catch (e: any) {
+        throw new Error(`Invalid JSON in ${manifestFile}: ${e?.message || String(e)}`)
+    }
+
+    if (!manifest || manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.modules)) {
+        throw new Error(`Unsupported manifest format in ${manifestFile}`)
+    }
+
+    return { manifest, manifestFile }
+}
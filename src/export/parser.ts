@@ -0,0 +1,455 @@
+export type DCall = {
+    source: string
+    start: number
+    end: number
+    // Where the call starts in the bundle: 1-based line, 0-based column (UTF-16 code units)
+    line: number
+    column: number
+}
+
+// A __d(...) call split into its arguments: __d("Name", ["DepA"], (function (t, n, r) {...}), 42)
+export type ParsedModule = DCall & {
+    // Haste name (first argument, trimmed); null when it isn't a non-empty string literal
+    name: string | null
+    // Second argument's string literals ([] when it isn't an array)
+    deps: string[]
+    factory: ModuleFactory | null
+    // Arguments after the factory (module id, flags): numeric literals as numbers, anything else
+    // as its source text
+    trailing: Array<number | string>
+}
+
+export type ModuleFactory = {
+    // The function expression, without the parentheses around it
+    source: string
+    params: string[]
+    arrow: boolean
+    async: boolean
+    // Where `source` is in the call's source (UTF-16 code units)
+    start: number
+    end: number
+}
+
+// A __d( call that could not be extracted: its module is missing from the output
+export type ParseDiagnostic = {
+    // Byte offset (UTF-8) of the __d( in the bundle, 1-based line and 0-based column
+    offset: number
+    line: number
+    column: number
+    reason: string
+    // Bundle text around the call, whitespace collapsed
+    snippet: string
+    // When the module name can still be read from the call
+    moduleName: string | null
+}
+
+// Chars of bundle text kept before / after the failed call in ParseDiagnostic.snippet
+export const SNIPPET_BEFORE = 40
+const SNIPPET_AFTER = 120
+
+// Diagnostic for the __d( at `callIdx` of `text`; `at` locates it in the whole bundle
+export function parseDiagnostic(
+    text: string,
+    callIdx: number,
+    at: { offset: number; line: number; column: number },
+    reason: string
+): ParseDiagnostic {
+    const name = readStringLiteral(text, skipWhitespace(text, callIdx + '__d('.length))
+    const snippet = text
+        .slice(Math.max(0, callIdx - SNIPPET_BEFORE), callIdx + SNIPPET_AFTER)
+        .replace(/\s+/g, ' ')
+        .trim()
+    return { ...at, reason, snippet, moduleName: name ? name.value.trim() || null : null }
+}
+
+export function formatParseDiagnostic(d: ParseDiagnostic): string {
+    const name = d.moduleName ? ` (module ${JSON.stringify(d.moduleName)})` : ''
+    return `failed to parse __d(...) at line ${d.line}, column ${d.column}${name}: ${d.reason}`
+}
+
+// Offsets are byte offsets (UTF-8) into the bundle, so they stay meaningful for the raw file.
+// Calls that can't be extracted are added to `diagnostics`, or printed as warnings without it.
+export function extractDCalls(source: string, diagnostics?: ParseDiagnostic[]): DCall[] {
+    const out: DCall[] = []
+    let i = 0
+    let charPos = 0
+    let bytePos = 0
+    let line = 1
+    let lineStart = 0
+    const countLines = (from: number, to: number) => {
+        for (let k = from; k < to; k++) {
+            if (source.charCodeAt(k) === 10) {
+                line++
+                lineStart = k + 1
+            }
+        }
+    }
+
+    while (i < source.length) {
+        const start = findNextDCallStart(source, i)
+        if (start === -1) break
+
+        try {
+            const openParenIdx = start + '__d'.length
+            const closeParenIdx = findMatchingParen(source, openParenIdx)
+            let end = closeParenIdx + 1
+            while (end < source.length && /\s/.test(source[end])) end++
+            if (source[end] === ';') end++
+
+            const text = source.slice(start, end)
+            bytePos += Buffer.byteLength(source.slice(charPos, start))
+            countLines(charPos, start)
+            const startByte = bytePos
+            const startLine = line
+            const startColumn = start - lineStart
+            bytePos += Buffer.byteLength(text)
+            countLines(start, end)
+            charPos = end
+
+            out.push({
+                source: text,
+                start: startByte,
+                end: bytePos,
+                line: startLine,
+                column: startColumn
+            })
+            i = end
+        } catch (e: any) {
+            const msg = e && typeof e.message === 'string' ? e.message : String(e)
+            bytePos += Buffer.byteLength(source.slice(charPos, start))
+            countLines(charPos, start)
+            charPos = start
+            const d = parseDiagnostic(
+                source,
+                start,
+                { offset: bytePos, line, column: start - lineStart },
+                msg
+            )
+            if (diagnostics) diagnostics.push(d)
+            else console.error(`Warning: ${formatParseDiagnostic(d)}`)
+            i = start + '__d('.length
+        }
+    }
+
+    return out
+}
+
+// Chars scanCode() reports, as a lookup table by char code (ASCII only)
+export type CodeChars = Uint8Array
+
+export function codeChars(chars: string): CodeChars {
+    const table = new Uint8Array(128)
+    for (let i = 0; i < chars.length; i++) table[chars.charCodeAt(i)] = 1
+    return table
+}
+
+const DCALL_START_CHARS = codeChars('_')
+const PAREN_CHARS = codeChars('()')
+
+export function findNextDCallStart(source: string, fromIdx: number): number {
+    return scanCode(source, fromIdx, DCALL_START_CHARS, (_ch, i) => source.startsWith('__d(', i))
+}
+
+export function findMatchingParen(source: string, openParenIdx: number): number {
+    let depth = 0
+    const close = scanCode(source, openParenIdx, PAREN_CHARS, (ch) => {
+        if (ch === '(') depth++
+        else if (--depth === 0) return true
+        return false
+    })
+    if (close === -1) throw new Error('No matching closing parenthesis found for __d(')
+    return close
+}
+
+// Char codes the lexer acts on
+const BACKSLASH = 92
+const SLASH = 47
+const STAR = 42
+const SINGLE_QUOTE = 39
+const DOUBLE_QUOTE = 34
+const BACKTICK = 96
+const DOLLAR = 36
+const OPEN_BRACE = 123
+const CLOSE_BRACE = 125
+const OPEN_BRACKET = 91
+const CLOSE_BRACKET = 93
+
+// The JS lexer everything else builds on (extraction, parsing, ia line breaks, the loader). Walks
+// `source` from `fromIdx`, skipping strings, template text, regexes and comments, and calls
+// `onCode` for each char of code listed in `chars`; returns the index where it first returns
+// true (-1 if none). Only the chars asked for are reported, so it stays fast on whole bundles.
+export function scanCode(
+    source: string,
+    fromIdx: number,
+    chars: CodeChars,
+    onCode: (ch: string, idx: number) => boolean
+): number {
+    const n = source.length
+    let inTemplate = false
+    // Open braces of the current ${...} (0 outside of one), and those of the enclosing ones
+    let templateExprDepth = 0
+    const templateExprStack: number[] = []
+
+    for (let i = fromIdx; i < n; i++) {
+        if (inTemplate) {
+            // Template text, up to its closing ` or the next ${
+            for (; i < n; i++) {
+                const c = source.charCodeAt(i)
+                if (c === BACKSLASH) i++
+                else if (c === BACKTICK) {
+                    templateExprDepth = templateExprStack.pop() ?? 0
+                    inTemplate = false
+                    break
+                } else if (c === DOLLAR && source.charCodeAt(i + 1) === OPEN_BRACE) {
+                    templateExprDepth = 1
+                    inTemplate = false
+                    i++
+                    break
+                }
+            }
+            continue
+        }
+
+        const c = source.charCodeAt(i)
+        if (c === SLASH) {
+            const next = source.charCodeAt(i + 1)
+            if (next === SLASH) {
+                i = source.indexOf('\n', i + 2)
+                if (i === -1) return -1
+                continue
+            }
+            if (next === STAR) {
+                i = source.indexOf('*/', i + 2)
+                if (i === -1) return -1
+                i++
+                continue
+            }
+            if (looksLikeRegexStart(source, i)) {
+                let inClass = false
+                for (i++; i < n; i++) {
+                    const r = source.charCodeAt(i)
+                    if (r === BACKSLASH) i++
+                    else if (r === OPEN_BRACKET) inClass = true
+                    else if (r === CLOSE_BRACKET) inClass = false
+                    else if (r === SLASH && !inClass) break
+                }
+                continue
+            }
+        } else if (c === SINGLE_QUOTE || c === DOUBLE_QUOTE) {
+            for (i++; i < n; i++) {
+                const q = source.charCodeAt(i)
+                if (q === BACKSLASH) i++
+                else if (q === c) break
+            }
+            continue
+        } else if (c === BACKTICK) {
+            templateExprStack.push(templateExprDepth)
+            templateExprDepth = 0
+            inTemplate = true
+            continue
+        } else if (templateExprDepth > 0) {
+            if (c === OPEN_BRACE) templateExprDepth++
+            else if (c === CLOSE_BRACE && --templateExprDepth === 0) {
+                inTemplate = true
+                continue
+            }
+        }
+
+        if (c < 128 && chars[c] === 1 && onCode(source[i], i)) return i
+    }
+
+    return -1
+}
+
+export function looksLikeRegexStart(source: string, slashIdx: number): boolean {
+    const next = slashIdx + 1 < source.length ? source[slashIdx + 1] : ''
+    if (next === '/' || next === '*') return false
+
+    let j = slashIdx - 1
+    while (j >= 0 && /\s/.test(source[j])) j--
+    if (j < 0) return true
+
+    const prev = source[j]
+
+    if (/[\)\]\}]/.test(prev)) return false
+    if (/[\w$]/.test(prev)) {
+        let k = j
+        while (k >= 0 && /[\w$]/.test(source[k])) k--
+        const word = source.slice(k + 1, j + 1)
+        if (word === 'return' || word === 'throw' || word === 'case') return true
+        return false
+    }
+    if (prev === '.' || prev === '"' || prev === "'" || prev === '`') return false
+
+    if (/[(\[\{,:;=!?~+\-*%&|^<>]/.test(prev)) return true
+
+    return false
+}
+
+export function readStringLiteral(src: string, idx: number): { value: string; end: number } | null {
+    const quote = src[idx]
+    if (quote !== '"' && quote !== "'") return null
+    let out = ''
+    for (let i = idx + 1; i < src.length; i++) {
+        const ch = src[i]
+        if (ch === '\\') {
+            const next = i + 1 < src.length ? src[i + 1] : ''
+            out += next
+            i++
+            continue
+        }
+        if (ch === quote) return { value: out, end: i + 1 }
+        out += ch
+    }
+    return null
+}
+
+export function skipWhitespace(src: string, idx: number): number {
+    while (idx < src.length && /\s/.test(src[idx])) idx++
+    return idx
+}
+
+type ArgRange = { start: number; end: number; wrapped: boolean }
+
+function trimRange(src: string, start: number, end: number): { start: number; end: number } {
+    while (start < end && /\s/.test(src[start])) start++
+    while (end > start && /\s/.test(src[end - 1])) end--
+    return { start, end }
+}
+
+const LIST_CHARS = codeChars('([{}]),')
+
+// Top-level comma-separated ranges between the bracket at `openIdx` and its match, which is at
+// `close` (-1 when it is never closed). Empty ranges (a trailing comma) are left out.
+function splitTopLevel(src: string, openIdx: number): { parts: ArgRange[]; close: number } {
+    const parts: ArgRange[] = []
+    let depth = 0
+    let partStart = openIdx + 1
+    // The part's first bracket group, to tell whether it wraps the whole part
+    let groupOpen = -1
+    let groupClose = -1
+    const push = (end: number) => {
+        const range = trimRange(src, partStart, end)
+        if (range.start === range.end) return
+        const wrapped =
+            src[range.start] === '(' && groupOpen === range.start && groupClose === range.end - 1
+        parts.push({ start: range.start, end: range.end, wrapped })
+    }
+    const close = scanCode(src, openIdx, LIST_CHARS, (ch, i) => {
+        if (ch === '(' || ch === '[' || ch === '{') {
+            if (++depth === 2 && groupOpen === -1) groupOpen = i
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--
+            if (depth === 1 && groupClose === -1) groupClose = i
+            if (depth === 0) {
+                push(i)
+                return true
+            }
+        } else if (ch === ',' && depth === 1) {
+            push(i)
+            partStart = i + 1
+            groupOpen = groupClose = -1
+        }
+        return false
+    })
+    return { parts, close }
+}
+
+// The range without the parentheses around it, if any
+function unwrapRange(src: string, range: ArgRange): ArgRange {
+    let current = range
+    while (current.wrapped) {
+        const inner = trimRange(src, current.start + 1, current.end - 1)
+        // Only ((...)) needs another scan
+        const wrapped =
+            src[inner.start] === '(' &&
+            src[inner.end - 1] === ')' &&
+            splitTopLevel(src, inner.start).close === inner.end - 1
+        current = { start: inner.start, end: inner.end, wrapped }
+    }
+    return current
+}
+
+function parseFactory(src: string, range: ArgRange): ModuleFactory | null {
+    const { start, end } = unwrapRange(src, range)
+    const text = src.slice(start, end)
+    const asyncPrefix = /^async\b\s*/.exec(text)
+    let i = asyncPrefix ? asyncPrefix[0].length : 0
+
+    let params: string[]
+    let arrow: boolean
+    const fn = /^function\b\s*\*?\s*[\w$]*\s*/.exec(text.slice(i))
+    if (fn) {
+        i += fn[0].length
+        if (text[i] !== '(') return null
+        const list = splitTopLevel(text, i)
+        if (list.close === -1) return null
+        params = list.parts.map((p) => text.slice(p.start, p.end).trim())
+        arrow = false
+    } else if (text[i] === '(') {
+        const list = splitTopLevel(text, i)
+        if (list.close === -1 || !text.startsWith('=>', skipWhitespace(text, list.close + 1))) {
+            return null
+        }
+        params = list.parts.map((p) => text.slice(p.start, p.end).trim())
+        arrow = true
+    } else {
+        const single = /^([\w$]+)\s*=>/.exec(text.slice(i))
+        if (!single) return null
+        params = [single[1]]
+        arrow = true
+    }
+    return { source: text, params, arrow, async: !!asyncPrefix, start, end }
+}
+
+function trailingValue(text: string): number | string {
+    const t = text.trim()
+    return /^-?\d+(\.\d+)?$/.test(t) ? Number(t) : t
+}
+
+export function parseDCall(call: DCall): ParsedModule {
+    const src = call.source
+    // Spelled out: object spread is much slower here, and this runs for every module
+    const out: ParsedModule = {
+        source: src,
+        start: call.start,
+        end: call.end,
+        line: call.line,
+        column: call.column,
+        name: null,
+        deps: [],
+        factory: null,
+        trailing: []
+    }
+    const open = src.indexOf('__d(')
+    if (open === -1) return out
+    const args = splitTopLevel(src, open + '__d'.length).parts
+
+    const first = args.length > 0 ? unwrapRange(src, args[0]) : null
+    const name = first ? readStringLiteral(src, first.start) : null
+    if (name && name.end === first!.end) out.name = name.value.trim() || null
+    if (args.length > 1) {
+        const second = unwrapRange(src, args[1])
+        if (src[second.start] === '[') {
+            for (const p of splitTopLevel(src, second.start).parts) {
+                const lit = readStringLiteral(src, skipWhitespace(src, p.start))
+                if (lit) out.deps.push(lit.value)
+            }
+        }
+    }
+
+    // WA bundles put it third, Metro's own format first
+    for (let i = 0; i < args.length; i++) {
+        out.factory = parseFactory(src, args[i])
+        if (!out.factory) continue
+        out.trailing = args.slice(i + 1).map((a) => trailingValue(src.slice(a.start, a.end)))
+        break
+    }
+    return out
+}
+
+// Every __d(...) call of a bundle held in memory, parsed (see parseBundleStream in scanner.ts for
+// streams). Calls that can't be extracted are added to `diagnostics`, or printed as warnings.
+export function parseBundle(source: string, diagnostics?: ParseDiagnostic[]): ParsedModule[] {
+    return extractDCalls(source, diagnostics).map(parseDCall)
+}
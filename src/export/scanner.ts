@@ -0,0 +1,369 @@
+import type { Readable } from 'stream'
+import { StringDecoder } from 'string_decoder'
+
+import {
+    formatParseDiagnostic,
+    parseDCall,
+    parseDiagnostic,
+    SNIPPET_BEFORE,
+    type DCall,
+    type ParseDiagnostic,
+    type ParsedModule
+} from './parser'
+
+export type BundleChunks = Readable | AsyncIterable<string | Uint8Array>
+
+type LexMode = 'code' | 'single' | 'double' | 'template' | 'regex' | 'lineComment' | 'blockComment'
+
+// Char code checks: this runs for every char of the bundle
+function isWhitespace(code: number): boolean {
+    if (code < 128) return code === 32 || (code >= 9 && code <= 13)
+    return /\s/.test(String.fromCharCode(code))
+}
+
+function isWordChar(code: number): boolean {
+    return (
+        (code >= 97 && code <= 122) ||
+        (code >= 65 && code <= 90) ||
+        (code >= 48 && code <= 57) ||
+        code === 95 ||
+        code === 36
+    )
+}
+
+// UTF-8 bytes of a UTF-16 code unit (each half of a surrogate pair counts for 2)
+function utf8Length(code: number): number {
+    if (code < 0x80) return 1
+    if (code < 0x800 || (code >= 0xd800 && code <= 0xdfff)) return 2
+    return 3
+}
+
+// Same rules as looksLikeRegexStart, from the last non-whitespace char and the word ending there.
+function regexCanStartAfter(prev: string, word: string): boolean {
+    if (!prev) return true
+    if (/[\)\]\}]/.test(prev)) return false
+    if (isWordChar(prev.charCodeAt(0)))
+        return word === 'return' || word === 'throw' || word === 'case'
+    if (prev === '.' || prev === '"' || prev === "'" || prev === '`') return false
+    return /[(\[\{,:;=!?~+\-*%&|^<>]/.test(prev)
+}
+
+// Incremental extractDCalls: the bundle is pushed in chunks and every __d(...) call is returned
+// as soon as it is complete. Only the call being read (plus a few chars of lookahead) is kept.
+// Its lexer follows the rules of scanCode() in parser.ts, with its state kept between chunks.
+export class DCallScanner {
+    // Text not lexed yet starts at buf[pos], which is at byte offset `byte` (UTF-8) of the bundle
+    private buf = ''
+    private pos = 0
+    private byte = 0
+    private line = 1
+    private column = 0
+
+    private mode: LexMode = 'code'
+    private regexInClass = false
+    private templateExprDepth = 0
+    private templateExprStack: number[] = []
+
+    // Backward context for regex detection
+    private prevCode = -1
+    private prevNonWs = ''
+    private prevWord = ''
+
+    // The call being read: pieces from earlier chunks, where it starts in buf, its byte offset
+    private inCall = false
+    private callParts: string[] = []
+    private callFrom = 0
+    private callStartByte = 0
+    private callStartLine = 1
+    private callStartColumn = 0
+    // Text right before the call, for its snippet if it has to be reported
+    private callContext = ''
+    // The last SNIPPET_BEFORE chars before buf
+    private before = ''
+    private depth = 0
+    // After the closing paren only whitespace and one ; still belong to the call
+    private callClosed = false
+
+    // Calls that can't be extracted are added to `diagnostics`, or printed as warnings without it
+    constructor(private readonly diagnostics?: ParseDiagnostic[]) {}
+
+    push(text: string): DCall[] {
+        return this.scan(text, false)
+    }
+
+    end(): DCall[] {
+        return this.scan('', true)
+    }
+
+    private scan(text: string, final: boolean): DCall[] {
+        this.compact()
+        this.buf += text
+        const out: DCall[] = []
+        this.lex(final, out)
+        while (final && this.inCall) {
+            this.abortCall()
+            this.lex(final, out)
+        }
+        return out
+    }
+
+    private compact() {
+        const dropped = this.buf.slice(Math.max(0, this.pos - SNIPPET_BEFORE), this.pos)
+        this.before = (this.before + dropped).slice(-SNIPPET_BEFORE)
+        if (this.inCall) {
+            this.callParts.push(this.buf.slice(this.callFrom, this.pos))
+            this.callFrom = 0
+        }
+        this.buf = this.buf.slice(this.pos)
+        this.pos = 0
+    }
+
+    private advance(n: number) {
+        const end = Math.min(this.pos + n, this.buf.length)
+        for (let i = this.pos; i < end; i++) {
+            const code = this.buf.charCodeAt(i)
+            this.byte += utf8Length(code)
+            if (code === 10) {
+                this.line++
+                this.column = 0
+            } else {
+                this.column++
+            }
+            if (isWordChar(code)) {
+                const ch = this.buf[i]
+                // Only return/throw/case matter: longer words are kept as their first 7 chars
+                if (!isWordChar(this.prevCode)) this.prevWord = ch
+                else if (this.prevWord.length < 7) this.prevWord += ch
+                this.prevNonWs = ch
+            } else if (!isWhitespace(code)) {
+                this.prevWord = ''
+                this.prevNonWs = this.buf[i]
+            }
+            this.prevCode = code
+        }
+        this.pos += n
+    }
+
+    private resetLexer() {
+        this.mode = 'code'
+        this.regexInClass = false
+        this.templateExprDepth = 0
+        this.templateExprStack = []
+    }
+
+    private lex(final: boolean, out: DCall[]) {
+        const src = this.buf
+        while (this.pos < src.length) {
+            const i = this.pos
+            const ch = src[i]
+
+            if (this.callClosed) {
+                if (isWhitespace(src.charCodeAt(i))) {
+                    this.advance(1)
+                    continue
+                }
+                if (ch === ';') this.advance(1)
+                this.finishCall(out)
+                continue
+            }
+
+            // '__d(' needs 4 chars to be recognized, everything else at most 2
+            const lookahead = !this.inCall && this.mode === 'code' && ch === '_' ? 4 : 2
+            if (!final && i + lookahead > src.length) return
+            const next = i + 1 < src.length ? src[i + 1] : ''
+            const mode = this.mode
+
+            if (mode === 'lineComment') {
+                if (ch === '\n') this.mode = 'code'
+                this.advance(1)
+                continue
+            }
+            if (mode === 'blockComment') {
+                if (ch === '*' && next === '/') {
+                    this.mode = 'code'
+                    this.advance(2)
+                    continue
+                }
+                this.advance(1)
+                continue
+            }
+            if (mode === 'single' || mode === 'double') {
+                if (ch === '\\') {
+                    this.advance(2)
+                    continue
+                }
+                if (ch === (mode === 'single' ? "'" : '"')) this.mode = 'code'
+                this.advance(1)
+                continue
+            }
+            if (mode === 'template') {
+                if (ch === '\\') {
+                    this.advance(2)
+                    continue
+                }
+                if (ch === '`') {
+                    this.templateExprDepth = this.templateExprStack.pop() ?? 0
+                    this.mode = 'code'
+                    this.advance(1)
+                    continue
+                }
+                if (ch === '$' && next === '{') {
+                    this.templateExprDepth = 1
+                    this.mode = 'code'
+                    this.advance(2)
+                    continue
+                }
+                this.advance(1)
+                continue
+            }
+            if (mode === 'regex') {
+                if (ch === '\\') {
+                    this.advance(2)
+                    continue
+                }
+                if (ch === '[') this.regexInClass = true
+                else if (ch === ']' && this.regexInClass) this.regexInClass = false
+                else if (ch === '/' && !this.regexInClass) this.mode = 'code'
+                this.advance(1)
+                continue
+            }
+
+            if (ch === '/' && next === '/') {
+                this.mode = 'lineComment'
+                this.advance(2)
+                continue
+            }
+            if (ch === '/' && next === '*') {
+                this.mode = 'blockComment'
+                this.advance(2)
+                continue
+            }
+            if (ch === "'" || ch === '"') {
+                this.mode = ch === "'" ? 'single' : 'double'
+                this.advance(1)
+                continue
+            }
+            if (ch === '`') {
+                this.templateExprStack.push(this.templateExprDepth)
+                this.templateExprDepth = 0
+                this.mode = 'template'
+                this.advance(1)
+                continue
+            }
+            if (ch === '/' && regexCanStartAfter(this.prevNonWs, this.prevWord)) {
+                this.mode = 'regex'
+                this.regexInClass = false
+                this.advance(1)
+                continue
+            }
+
+            if (this.templateExprDepth > 0) {
+                if (ch === '{') this.templateExprDepth++
+                else if (ch === '}') {
+                    this.templateExprDepth--
+                    if (this.templateExprDepth === 0) {
+                        this.mode = 'template'
+                        this.advance(1)
+                        continue
+                    }
+                }
+            }
+
+            if (!this.inCall) {
+                if (ch === '_' && src.startsWith('__d(', i)) {
+                    this.startCall()
+                    this.advance('__d('.length)
+                    continue
+                }
+            } else if (ch === '(') {
+                this.depth++
+            } else if (ch === ')') {
+                this.depth--
+                if (this.depth === 0) this.callClosed = true
+            }
+            this.advance(1)
+        }
+
+        if (final && this.callClosed) this.finishCall(out)
+    }
+
+    private startCall() {
+        this.resetLexer()
+        this.inCall = true
+        this.callParts = []
+        this.callFrom = this.pos
+        this.callStartByte = this.byte
+        this.callStartLine = this.line
+        this.callStartColumn = this.column
+        const preceding = this.buf.slice(Math.max(0, this.pos - SNIPPET_BEFORE), this.pos)
+        this.callContext = (this.before + preceding).slice(-SNIPPET_BEFORE)
+        this.depth = 1
+    }
+
+    private finishCall(out: DCall[]) {
+        const text = this.callParts.join('') + this.buf.slice(this.callFrom, this.pos)
+        out.push({
+            source: text,
+            start: this.callStartByte,
+            end: this.callStartByte + Buffer.byteLength(text),
+            line: this.callStartLine,
+            column: this.callStartColumn
+        })
+        this.inCall = false
+        this.callClosed = false
+        this.callParts = []
+        this.resetLexer()
+    }
+
+    // End of input inside a call: report it like extractDCalls and rescan right after its '__d('.
+    private abortCall() {
+        const rest = this.callParts.join('') + this.buf.slice(this.callFrom)
+        // With the same text before it as extractDCalls, for the same snippet
+        const d = parseDiagnostic(
+            this.callContext + rest,
+            this.callContext.length,
+            { offset: this.callStartByte, line: this.callStartLine, column: this.callStartColumn },
+            'No matching closing parenthesis found for __d('
+        )
+        if (this.diagnostics) this.diagnostics.push(d)
+        else console.error(`Warning: ${formatParseDiagnostic(d)}`)
+        this.buf = rest.slice('__d('.length)
+        this.pos = 0
+        this.before = (this.callContext + '__d(').slice(-SNIPPET_BEFORE)
+        this.byte = this.callStartByte + '__d('.length
+        this.line = this.callStartLine
+        this.column = this.callStartColumn + '__d('.length
+        this.inCall = false
+        this.callParts = []
+        this.resetLexer()
+        this.prevCode = 40 // (
+        this.prevNonWs = '('
+        this.prevWord = ''
+    }
+}
+
+// Yields the __d(...) calls of a bundle read from a stream, as they complete.
+export async function* scanDCalls(
+    input: BundleChunks,
+    diagnostics?: ParseDiagnostic[]
+): AsyncGenerator<DCall> {
+    const scanner = new DCallScanner(diagnostics)
+    const decoder = new StringDecoder('utf8')
+    for await (const chunk of input as AsyncIterable<string | Uint8Array>) {
+        const text =
+            typeof chunk === 'string'
+                ? chunk
+                : decoder.write(Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength))
+        yield* scanner.push(text)
+    }
+    yield* scanner.push(decoder.end())
+    yield* scanner.end()
+}
+
+// parseBundle() for a bundle read from a stream
+export async function* parseBundleStream(
+    input: BundleChunks,
+    diagnostics?: ParseDiagnostic[]
+): AsyncGenerator<ParsedModule> {
+    for await (const call of scanDCalls(input, diagnostics)) yield parseDCall(call)
+}
@@ -0,0 +1,173 @@
+// Just enough of the source map v3 format to map exported modules back into their bundle.
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?], all 0-based and absolute
+export type MappingSegment = number[]
+// One entry per generated line
+export type DecodedMappings = MappingSegment[][]
+
+export type SourceMap = {
+    version: 3
+    file: string
+    sources: string[]
+    names: string[]
+    mappings: string
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+const BASE64_VALUES = new Map([...BASE64].map((ch, idx) => [ch, idx]))
+
+function encodeVlq(value: number): string {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1
+    let out = ''
+    do {
+        let digit = vlq & 31
+        vlq >>>= 5
+        if (vlq > 0) digit |= 32
+        out += BASE64[digit]
+    } while (vlq > 0)
+    return out
+}
+
+export function encodeMappings(mappings: DecodedMappings): string {
+    // Every field but the generated column is relative to the previous segment of the whole map
+    const prev = [0, 0, 0, 0]
+    return mappings
+        .map((segments) => {
+            prev[0] = 0
+            return segments
+                .map((segment) => {
+                    let out = ''
+                    for (let k = 0; k < segment.length; k++) {
+                        out += encodeVlq(segment[k] - prev[k])
+                        prev[k] = segment[k]
+                    }
+                    return out
+                })
+                .join(',')
+        })
+        .join(';')
+}
+
+export function decodeMappings(mappings: string): DecodedMappings {
+    const prev = [0, 0, 0, 0, 0]
+    return mappings.split(';').map((line) => {
+        prev[0] = 0
+        const segments: MappingSegment[] = []
+        for (const raw of line.split(',')) {
+            if (!raw) continue
+            const segment: MappingSegment = []
+            let value = 0
+            let shift = 0
+            for (const ch of raw) {
+                const digit = BASE64_VALUES.get(ch)
+                if (digit === undefined) throw new Error(`Invalid source map mappings: ${raw}`)
+                value += (digit & 31) << shift
+                if (digit & 32) {
+                    shift += 5
+                    continue
+                }
+                const k = segment.length
+                prev[k] += value & 1 ? -(value >>> 1) : value >>> 1
+                segment.push(prev[k])
+                value = 0
+                shift = 0
+            }
+            segments.push(segment)
+        }
+        return segments
+    })
+}
+
+function isWordCode(code: number): boolean {
+    return (
+        (code >= 97 && code <= 122) ||
+        (code >= 65 && code <= 90) ||
+        (code >= 48 && code <= 57) ||
+        code === 95 ||
+        code === 36
+    )
+}
+
+// Maps text onto itself with one segment per token start (word runs and single punctuation chars).
+export function identityMappings(text: string): DecodedMappings {
+    const out: DecodedMappings = []
+    let line = 0
+    let segments: MappingSegment[] = []
+    let column = 0
+    let prevCode = -1
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i)
+        if (code === 10) {
+            out.push(segments)
+            segments = []
+            line++
+            column = 0
+            prevCode = -1
+            continue
+        }
+        const isSpace = code === 32 || code === 9 || code === 13
+        if (!isSpace && !(isWordCode(code) && isWordCode(prevCode))) {
+            segments.push([column, 0, line, column])
+        }
+        prevCode = isSpace ? -1 : code
+        column++
+    }
+    out.push(segments)
+    return out
+}
+
+// Generated positions after a '\n' was inserted right after each of the (sorted) text offsets.
+export function remapInsertedLineBreaks(
+    mappings: DecodedMappings,
+    text: string,
+    insertedAfter: number[]
+): DecodedMappings {
+    const lineStarts = [0]
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) === 10) lineStarts.push(i + 1)
+    }
+
+    const out: DecodedMappings = []
+    let k = 0
+    mappings.forEach((segments, line) => {
+        for (const segment of segments) {
+            const offset = (lineStarts[line] ?? text.length) + segment[0]
+            while (k < insertedAfter.length && insertedAfter[k] < offset) k++
+            const newLine = line + k
+            // The generated line now starts at the later of the old line start and the last break
+            const from = Math.max(lineStarts[line] ?? 0, k > 0 ? insertedAfter[k - 1] + 1 : 0)
+            while (out.length <= newLine) out.push([])
+            out[newLine].push([offset - from, ...segment.slice(1)])
+        }
+    })
+    // Breaks after the last mapped segment still add (empty) generated lines
+    const totalLines = lineStarts.length + insertedAfter.length
+    while (out.length < totalLines) out.push([])
+    return out
+}
+
+// Moves original positions from the module's own coordinates to where it starts in the bundle.
+export function shiftOriginalPositions(
+    mappings: DecodedMappings,
+    line: number,
+    column: number
+): DecodedMappings {
+    return mappings.map((segments) =>
+        segments.map((segment) => {
+            if (segment.length < 4) return segment
+            const shifted = [...segment]
+            if (shifted[2] === 0) shifted[3] += column
+            shifted[2] += line
+            return shifted
+        })
+    )
+}
+
+export function buildSourceMap(
+    file: string,
+    source: string,
+    mappings: DecodedMappings,
+    names: string[] = []
+): SourceMap {
+    return { version: 3, file, sources: [source], names, mappings: encodeMappings(mappings) }
+}
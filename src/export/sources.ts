@@ -0,0 +1,236 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { fetchBundle, type FetchBundleOptions } from './fetch'
+import { runWithConcurrency } from './util'
+
+export type BundleText = {
+    // Bundle URL (JSON mode) or absolute bundle path (JS mode)
+    source: string
+    text: string
+}
+
+// Entries may be http(s) URLs, file:// URLs or paths relative to the list itself.
+export async function readUrlList(inputFile: string): Promise<string[]> {
+    const raw = await fs.readFile(inputFile, 'utf-8')
+    let urls: unknown
+    try {
+        urls = JSON.parse(raw)
+    } catch (e: any) {
+        throw new Error(`Invalid JSON in ${inputFile}: ${e?.message || String(e)}`)
+    }
+
+    if (!Array.isArray(urls) || !urls.every((x) => typeof x === 'string')) {
+        throw new Error(`${inputFile} must contain a JSON string[] of URLs`)
+    }
+    return urls as string[]
+}
+
+export type HarBundle = {
+    url: string
+    body: Buffer
+}
+
+function isJavaScriptResponse(url: string, mimeType: string): boolean {
+    if (/javascript|ecmascript/i.test(mimeType)) return true
+    try {
+        return /\.m?js$/i.test(new URL(url).pathname)
+    } catch {
+        return false
+    }
+}
+
+// JavaScript responses of a HAR capture that contain Metro modules (__d( markers), in capture
+// order. Responses saved without a body are skipped, repeated URLs are kept once.
+export async function readHarBundles(harFile: string): Promise<HarBundle[]> {
+    let har: any
+    try {
+        har = JSON.parse(await fs.readFile(harFile, 'utf-8'))
+    } catch (e: any) {
+        throw new Error(`Invalid HAR in ${harFile}: ${e?.message || String(e)}`)
+    }
+
+    const entries = har?.log?.entries
+    if (!Array.isArray(entries)) {
+        throw new Error(`${harFile} is not a HAR file (missing log.entries)`)
+    }
+
+    const out: HarBundle[] = []
+    const seen = new Set<string>()
+    for (const entry of entries) {
+        const url = entry?.request?.url
+        const content = entry?.response?.content
+        if (typeof url !== 'string' || !content || typeof content.text !== 'string') continue
+        if (seen.has(url) || !isJavaScriptResponse(url, String(content.mimeType || ''))) continue
+
+        const body =
+            content.encoding === 'base64'
+                ? Buffer.from(content.text, 'base64')
+                : Buffer.from(content.text, 'utf-8')
+        if (!body.includes('__d(')) continue
+
+        seen.add(url)
+        out.push({ url, body })
+    }
+    return out
+}
+
+// Recursively lists .js files below dir, sorted so the order is stable across runs.
+export async function listJsFiles(dir: string): Promise<string[]> {
+    return (await listFiles(dir)).filter((f) => path.extname(f).toLowerCase() === '.js')
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+    const out: string[] = []
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    for (const entry of entries) {
+        const full = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+            out.push(...(await listFiles(full)))
+        } else if (entry.isFile()) {
+            out.push(full)
+        }
+    }
+    return out.sort()
+}
+
+export function isGlobPattern(input: string): boolean {
+    return /[*?[\]{}]/.test(input)
+}
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Supports *, ?, ** (any number of directories), [abc]/[!abc] and {a,b}.
+function globToRegExpSource(glob: string): string {
+    let re = ''
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i]
+        if (ch === '*') {
+            if (glob[i + 1] === '*') {
+                i++
+                if (glob[i + 1] === '/') {
+                    i++
+                    re += '(?:.*/)?'
+                } else {
+                    re += '.*'
+                }
+            } else {
+                re += '[^/]*'
+            }
+            continue
+        }
+        if (ch === '?') {
+            re += '[^/]'
+            continue
+        }
+        if (ch === '[') {
+            const end = glob.indexOf(']', i + 1)
+            if (end !== -1) {
+                const cls = glob.slice(i + 1, end).replace(/\\/g, '\\\\')
+                re += cls.startsWith('!') ? `[^${cls.slice(1)}]` : `[${cls}]`
+                i = end
+                continue
+            }
+        }
+        if (ch === '{') {
+            const end = glob.indexOf('}', i + 1)
+            if (end !== -1) {
+                const alternatives = glob
+                    .slice(i + 1, end)
+                    .split(',')
+                    .map(globToRegExpSource)
+                re += `(?:${alternatives.join('|')})`
+                i = end
+                continue
+            }
+        }
+        re += escapeRegExp(ch)
+    }
+    return re
+}
+
+// Matching files, sorted. The walk starts at the deepest directory without glob characters.
+export async function expandGlob(pattern: string): Promise<string[]> {
+    const normalized = path.resolve(pattern).split(path.sep).join('/')
+    const segments = normalized.split('/')
+    const firstGlob = segments.findIndex(isGlobPattern)
+    if (firstGlob === -1) return [path.resolve(pattern)]
+
+    const baseDir = segments.slice(0, firstGlob).join('/') || '/'
+    const matcher = new RegExp(`^${globToRegExpSource(segments.slice(firstGlob).join('/'))}$`)
+    const stat = await fs.stat(baseDir).catch(() => null)
+    if (!stat || !stat.isDirectory()) return []
+
+    const files = await listFiles(baseDir)
+    return files.filter((f) => matcher.test(path.relative(baseDir, f).split(path.sep).join('/')))
+}
+
+// Deepest directory of a glob pattern that has no glob characters.
+export function globBaseDir(pattern: string): string {
+    const segments = path.resolve(pattern).split(path.sep)
+    const firstGlob = segments.findIndex(isGlobPattern)
+    if (firstGlob === -1) return path.dirname(path.resolve(pattern))
+    return segments.slice(0, firstGlob).join(path.sep) || path.sep
+}
+
+// For directory and glob inputs: the local bundle files to process. Null for any other input.
+export async function listInputBundleFiles(
+    input: string,
+    opts?: { exclude?: string }
+): Promise<string[] | null> {
+    let files: string[]
+    const stat = await fs.stat(input).catch(() => null)
+    if (stat) {
+        if (!stat.isDirectory()) return null
+        files = await listJsFiles(input)
+    } else if (isGlobPattern(input)) {
+        files = await expandGlob(input)
+        if (files.length === 0) {
+            throw new Error(`No file matches ${input}`)
+        }
+    } else {
+        return null
+    }
+
+    const exclude = opts?.exclude ? path.resolve(opts.exclude) + path.sep : null
+    return exclude ? files.filter((f) => !f.startsWith(exclude)) : files
+}
+
+// Loads every bundle of a .js, .json (URL list), .har, directory or glob input as text, in input order.
+export async function readBundleTexts(
+    inputFile: string,
+    opts?: { concurrency?: number; fetch?: FetchBundleOptions }
+): Promise<BundleText[]> {
+    const files = await listInputBundleFiles(inputFile)
+    if (files) {
+        const out: BundleText[] = new Array(files.length)
+        await runWithConcurrency(files, 20, async (file, idx) => {
+            out[idx] = { source: file, text: await fs.readFile(file, 'utf-8') }
+        })
+        return out
+    }
+
+    const ext = path.extname(inputFile).toLowerCase()
+    if (ext === '.js') {
+        return [{ source: inputFile, text: await fs.readFile(inputFile, 'utf-8') }]
+    }
+    if (ext === '.har') {
+        const bundles = await readHarBundles(inputFile)
+        return bundles.map((b) => ({ source: b.url, text: b.body.toString('utf-8') }))
+    }
+    if (ext !== '.json') {
+        throw new Error(
+            `Unsupported input extension: ${ext}. Use .js, .json, .har, a directory or a glob pattern`
+        )
+    }
+
+    const urls = await readUrlList(inputFile)
+    const out: BundleText[] = new Array(urls.length)
+    await runWithConcurrency(urls, opts?.concurrency ?? 1, async (url, idx) => {
+        const ab = await fetchBundle(url, { baseDir: path.dirname(inputFile), ...opts?.fetch })
+        out[idx] = { source: url, text: Buffer.from(ab).toString('utf-8') }
+    })
+    return out
+}
@@ -0,0 +1,33 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+
+export async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>
+) {
+    const concurrency = Math.max(1, Math.floor(limit))
+    let nextIdx = 0
+    const runners = new Array(Math.min(concurrency, items.length)).fill(0).map(async () => {
+        while (true) {
+            const idx = nextIdx
+            nextIdx++
+            if (idx >= items.length) return
+            await worker(items[idx], idx)
+        }
+    })
+    await Promise.all(runners)
+}
+
+export async function fileExists(p: string): Promise<boolean> {
+    try {
+        await fs.access(p)
+        return true
+    } catch {
+        return false
+    }
+}
+
+export function sha1Hex(data: string | Buffer): string {
+    return createHash('sha1').update(data).digest('hex')
+}
@@ -0,0 +1,155 @@
+import { promises as fs, watch, type FSWatcher } from 'fs'
+import path from 'path'
+
+export type WatchTargets = {
+    // Single files. Their directories are watched, so files replaced by a rename are still seen.
+    files: string[]
+    // Directory trees, for changes to the files `accept` lets through
+    dirs: string[]
+    accept?: (file: string) => boolean
+    // Changes under these directories are ignored (e.g. the export's own output)
+    ignore?: string[]
+}
+
+// Module files ('/' separated, relative to the output dir) since the previous run
+export type ModuleFileChanges = {
+    added: string[]
+    changed: string[]
+    removed: string[]
+}
+
+export function diffModuleFiles(
+    before: Array<{ file: string; hash: string }>,
+    after: Array<{ file: string; hash: string }>
+): ModuleFileChanges {
+    const previous = new Map(before.map((m) => [m.file, m.hash]))
+    const current = new Set<string>()
+    const out: ModuleFileChanges = { added: [], changed: [], removed: [] }
+    for (const { file, hash } of after) {
+        current.add(file)
+        const old = previous.get(file)
+        if (old === undefined) out.added.push(file)
+        else if (old !== hash) out.changed.push(file)
+    }
+    for (const file of previous.keys()) {
+        if (!current.has(file)) out.removed.push(file)
+    }
+    return out
+}
+
+function isInside(file: string, dir: string): boolean {
+    return file === dir || file.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep)
+}
+
+async function listDirs(root: string): Promise<string[]> {
+    const out = [root]
+    const entries = await fs.readdir(root, { withFileTypes: true }).catch(() => [])
+    for (const entry of entries) {
+        if (entry.isDirectory()) out.push(...(await listDirs(path.join(root, entry.name))))
+    }
+    return out
+}
+
+// Calls onChange once per burst of file changes, `debounceMs` after the last one.
+export class ChangeWatcher {
+    private readonly watchers = new Map<string, FSWatcher>()
+    private targets: WatchTargets = { files: [], dirs: [] }
+    private fileSet = new Set<string>()
+    private pending = new Set<string>()
+    private timer: NodeJS.Timeout | null = null
+    private closed = false
+    // Recursive watching is not available on Linux before Node 20: every directory of the
+    // tree is watched instead
+    private noRecursive = false
+
+    constructor(
+        private readonly debounceMs: number,
+        private readonly onChange: (files: string[]) => void
+    ) {}
+
+    // Replaces what is watched
+    async update(targets: WatchTargets) {
+        if (this.closed) return
+        this.targets = {
+            ...targets,
+            files: targets.files.map((f) => path.resolve(f)),
+            dirs: targets.dirs.map((d) => path.resolve(d)),
+            ignore: (targets.ignore ?? []).map((d) => path.resolve(d))
+        }
+        this.fileSet = new Set(this.targets.files)
+
+        // Directory -> recursive
+        const wanted = new Map<string, boolean>()
+        for (const file of this.targets.files) wanted.set(path.dirname(file), false)
+        for (const dir of this.targets.dirs) {
+            if (!this.noRecursive) {
+                wanted.set(dir, true)
+                continue
+            }
+            for (const sub of await listDirs(dir)) wanted.set(sub, false)
+        }
+
+        for (const [dir, w] of this.watchers) {
+            if (!wanted.has(dir)) {
+                w.close()
+                this.watchers.delete(dir)
+            }
+        }
+        for (const [dir, recursive] of wanted) {
+            if (this.watchers.has(dir) || this.watch(dir, recursive)) continue
+            this.noRecursive = true
+            for (const sub of await listDirs(dir)) {
+                if (!this.watchers.has(sub)) this.watch(sub, false)
+            }
+        }
+    }
+
+    close() {
+        this.closed = true
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = null
+        for (const w of this.watchers.values()) w.close()
+        this.watchers.clear()
+    }
+
+    // False when recursive watching is not supported
+    private watch(dir: string, recursive: boolean): boolean {
+        try {
+            const w = watch(dir, { recursive }, (_event, filename) => {
+                const file = filename ? path.join(dir, filename.toString()) : dir
+                this.onEvent(file)
+            })
+            // A watched directory that goes away is picked up again by the next update
+            w.on('error', () => {
+                w.close()
+                if (this.watchers.get(dir) === w) this.watchers.delete(dir)
+            })
+            this.watchers.set(dir, w)
+            return true
+        } catch (e: any) {
+            if (recursive && e?.code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') return false
+            // Missing directory: nothing to watch until it exists
+            if (e?.code === 'ENOENT') return true
+            throw e
+        }
+    }
+
+    private onEvent(file: string) {
+        if (this.closed) return
+        const { dirs, accept, ignore } = this.targets
+        if (ignore?.some((d) => isInside(file, d))) return
+        const relevant =
+            this.fileSet.has(file) ||
+            (dirs.some((d) => isInside(file, d)) && (!accept || accept(file)))
+        if (!relevant) return
+
+        this.pending.add(file)
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = setTimeout(() => {
+            this.timer = null
+            const files = [...this.pending]
+            this.pending.clear()
+            this.onChange(files)
+        }, this.debounceMs)
+    }
+}
@@ -1,6 +1,9 @@
 import { parentPort } from 'worker_threads'
 
-import { buildExportFiles } from './index'
+import type { OutputFormat } from './format'
+import { buildExportFiles, type ExportFileInfo, type ModuleFilterStats } from './index'
+import type { ParseDiagnostic } from './parser'
+import type { SourceMap } from './sourcemap'
 
 type WorkerRequest = {
     id: number
@@ -8,27 +11,39 @@ type WorkerRequest = {
     byteOffset: number
     byteLength: number
     disambiguate: boolean
-    toIa: boolean
+    format: OutputFormat
     mergeCommonNames: boolean
     mergeCommonPrefixes: Array<{ raw: string; isSuffix?: boolean }> | null
     moduleNameFilters: string[]
+    moduleNameExcludeFilters: string[]
+    contentFilters: string[]
+    contentExcludeFilters: string[]
+    moduleNames: string[] | null
+    sourceMap: boolean
+    sourceMapSource: string
+    declarations: boolean
 }
 
 type WorkerChunk = {
     id: number
     kind: 'chunk'
-    files: Array<{
-        fileName: string
-        data: ArrayBuffer
-        byteOffset: number
-        byteLength: number
-    }>
+    files: Array<
+        ExportFileInfo & {
+            data: ArrayBuffer
+            byteOffset: number
+            byteLength: number
+            map?: SourceMap
+            dts?: string
+        }
+    >
 }
 
 type WorkerDone = {
     id: number
     kind: 'done'
     fileCount: number
+    filterStats: ModuleFilterStats
+    diagnostics: ParseDiagnostic[]
 }
 
 type WorkerError = {
@@ -43,12 +58,23 @@ async function handle(req: WorkerRequest) {
     const buf = Buffer.from(req.bundle, req.byteOffset, req.byteLength)
     const text = buf.toString('utf-8')
 
+    const filterStats: ModuleFilterStats = { matched: 0, excluded: 0, dependencies: 0 }
+    const diagnostics: ParseDiagnostic[] = []
     const files = await buildExportFiles(text, {
         disambiguate: req.disambiguate,
-        toIa: req.toIa,
+        format: req.format,
         mergeCommonNames: req.mergeCommonNames,
         mergeCommonPrefixes: req.mergeCommonPrefixes,
-        moduleNameFilters: req.moduleNameFilters
+        moduleNameFilters: req.moduleNameFilters,
+        moduleNameExcludeFilters: req.moduleNameExcludeFilters,
+        contentFilters: req.contentFilters,
+        contentExcludeFilters: req.contentExcludeFilters,
+        moduleNames: req.moduleNames,
+        sourceMap: req.sourceMap,
+        sourceMapSource: req.sourceMapSource,
+        declarations: req.declarations,
+        filterStats,
+        diagnostics
     })
 
     const encoder = new TextEncoder()
@@ -68,12 +94,12 @@ async function handle(req: WorkerRequest) {
         transferList = []
     }
 
-    for (const f of files) {
-        const u8 = encoder.encode(f.content)
+    for (const { content, ...info } of files) {
+        const u8 = encoder.encode(content)
         const ab = u8.buffer as ArrayBuffer
 
         batch.push({
-            fileName: f.fileName,
+            ...info,
             data: ab,
             byteOffset: u8.byteOffset,
             byteLength: u8.byteLength
@@ -87,7 +113,13 @@ async function handle(req: WorkerRequest) {
 
     flush()
 
-    const done: WorkerDone = { id: req.id, kind: 'done', fileCount: files.length }
+    const done: WorkerDone = {
+        id: req.id,
+        kind: 'done',
+        fileCount: files.length,
+        filterStats,
+        diagnostics
+    }
     parentPort?.postMessage(done)
 }
 
@@ -3,7 +3,70 @@ export {
     makeFactoryFromFunctionExpression,
     extractFunctionExpression
 } from './metro-loader'
-export type { ModuleSpec } from './register-modules'
-export { registerAll } from './register-modules'
-export { buildExportFiles, exportModules } from '../export/index'
-export type { ExportModulesOptions, ExportModulesResult } from '../export/index'
+export type {
+    Factory,
+    ModuleExportsOf,
+    ModuleMap,
+    ModuleName,
+    ModuleRegistryOptions
+} from './metro-loader'
+export type {
+    DirectoryModule,
+    DirectoryPrecedence,
+    ModuleSpec,
+    RegisterDirectoryOptions
+} from './register-modules'
+export {
+    registerAll,
+    registerDirectory,
+    registerManifest,
+    modulesFromDirectory,
+    modulesFromManifest
+} from './register-modules'
+export {
+    ExportAbortedError,
+    buildExportFiles,
+    exportModules,
+    streamExportFiles,
+    watchExport
+} from '../export/index'
+export type {
+    BuildExportFilesOptions,
+    ExportFile,
+    ExportFileInfo,
+    ExportModulesOptions,
+    ExportModulesResult,
+    ExportProgressEvent,
+    ExportWatcher,
+    ModuleFilterStats,
+    WatchExportOptions,
+    WatchRunSummary
+} from '../export/index'
+export { CONFIG_FILE_NAMES, loadExportConfig } from '../export/config'
+export type { ExportConfig, ExportConfigOptions, LoadExportConfigOptions } from '../export/config'
+export { diffBundles, formatBundleDiff } from '../export/diff'
+export type { BundleDiffResult, DiffBundlesOptions, ModuleChange } from '../export/diff'
+export {
+    buildDependencyGraph,
+    collectModuleDeps,
+    dependencyGraphFromModules,
+    expandModuleSelection,
+    formatDependencyGraph
+} from '../export/graph'
+export type {
+    BuildDependencyGraphOptions,
+    DependencyGraph,
+    DependencyGraphFormat,
+    ExpandModuleSelectionOptions,
+    ModuleDeps
+} from '../export/graph'
+export { DCallScanner, parseBundleStream, scanDCalls } from '../export/scanner'
+export type { BundleChunks } from '../export/scanner'
+export { parseBundle, parseDCall } from '../export/parser'
+export type { DCall, ModuleFactory, ParseDiagnostic, ParsedModule } from '../export/parser'
+export type { SourceMap } from '../export/sourcemap'
+export type { CollisionPolicy, DuplicateModule, ModuleCollision } from '../export/collisions'
+export { discoverModuleExports } from '../export/dts'
+export type { ExportShape, ModuleExports } from '../export/dts'
+export { readManifest } from '../export/manifest'
+export type { ExportManifest, ExportManifestModule } from '../export/manifest'
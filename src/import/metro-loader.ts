@@ -1,3 +1,5 @@
+import { codeChars, scanCode, skipWhitespace } from '../export/parser'
+
 // Minimal Metro-like loader for deobfuscated WA modules
 // It supports modules expressed as: ["DepA","DepB",...], (function(a,b,c,d,e,f,g){ ... g.Exported = ... }), <id>);
 // We do not execute the raw bundle directly. Instead, we convert each file into a factory function
@@ -14,17 +16,41 @@ export type Factory = (
     module: { exports: any }
 ) => any
 
+// Module name -> exports type, empty by default. Augment it to type ModuleRegistry.require,
+// registerValue and registerAsync, e.g. with the modules.d.ts written by `wa-export --dts`:
+//   declare module 'wa-modules-loader' { interface ModuleMap extends ExportedModules {} }
+export interface ModuleMap {}
+
+// Known names of the map (for autocompletion) plus any other string
+export type ModuleName<M> = (keyof M & string) | (string & {})
+
+// Declared exports of a known module, any for the rest
+export type ModuleExportsOf<M, K extends string> = K extends keyof M ? M[K] : any
+
 type ModuleRecord = {
-    factory: Factory
+    // Null until a lazily registered module is first required
+    factory: Factory | null
+    load?: () => Factory
     exports: any
     normalized?: any
     initialized: boolean
+    // The module object while its factory runs: modules it requires that require it back get
+    // its exports as populated so far, like in Metro
+    initializing?: { exports: any }
+}
+
+export type ModuleRegistryOptions = {
+    // Called when a module is required while it is still initializing. `chain` is the require
+    // chain that led there, from the outermost require() to the module, e.g. ['App', 'A', 'B', 'A'].
+    onCycle?: (chain: string[]) => void
 }
 
-export class ModuleRegistry {
+export class ModuleRegistry<M extends object = ModuleMap> {
     private map: Map<string, ModuleRecord>
+    // Modules whose factory is running, outermost first
+    private readonly requireStack: string[] = []
 
-    constructor() {
+    constructor(private readonly options: ModuleRegistryOptions = {}) {
         this.map = new Map()
     }
 
@@ -33,7 +59,13 @@ export class ModuleRegistry {
         this.map.set(name, { factory, exports: undefined, initialized: false })
     }
 
-    registerValue(name: string, value: any): void {
+    // Like register(), but `load` only runs when the module is first required
+    registerLazy(name: string, load: () => Factory): void {
+        if (this.map.has(name)) return
+        this.map.set(name, { factory: null, load, exports: undefined, initialized: false })
+    }
+
+    registerValue<K extends ModuleName<M>>(name: K, value: ModuleExportsOf<M, K>): void {
         this.register(
             name,
             function (
@@ -51,9 +83,12 @@ export class ModuleRegistry {
         )
     }
 
-    async registerAsync(
-        name: string,
-        valueOrLoader: Promise<any> | (() => Promise<any>)
+    // A resolved { default } object registers its default, like an ES module import()
+    async registerAsync<K extends ModuleName<M>>(
+        name: K,
+        valueOrLoader:
+            | Promise<ModuleExportsOf<M, K> | { default: ModuleExportsOf<M, K> }>
+            | (() => Promise<ModuleExportsOf<M, K> | { default: ModuleExportsOf<M, K> }>)
     ): Promise<void> {
         const val =
             typeof valueOrLoader === 'function'
@@ -64,24 +99,41 @@ export class ModuleRegistry {
         this.registerValue(name, resolved)
     }
 
-    require<T = any>(name: string): T {
+    // Typed by the module map; an explicit type argument (require<T>('X')) or requireAs<T>() types
+    // a single call by hand. Only names of the map bind to K, so T can't be mistaken for a name.
+    require<K extends keyof M & string>(name: K): M[K]
+    require<T = any>(name: string): T
+    require(name: string): any {
         const rec = this.map.get(name)
         if (!rec) throw new Error(`Module not found: ${name}`)
+        if (rec.initializing) {
+            this.options.onCycle?.([...this.requireStack, name])
+            return rec.initializing.exports
+        }
         if (!rec.initialized) {
+            if (!rec.factory) rec.factory = rec.load!()
             const module = { exports: {} as any }
             const exports = module.exports
             const requireByName = (depName: string) => this.require(depName)
-            // Some modules expect multiple resolver params (b and d). We pass the same resolver for all.
-            rec.factory(
-                globalThis as any,
-                requireByName,
-                requireByName,
-                requireByName,
-                requireByName,
-                requireByName,
-                exports,
-                module
-            )
+            rec.initializing = module
+            this.requireStack.push(name)
+            try {
+                // Some modules expect multiple resolver params (b and d). We pass the same resolver for all.
+                rec.factory(
+                    globalThis as any,
+                    requireByName,
+                    requireByName,
+                    requireByName,
+                    requireByName,
+                    requireByName,
+                    exports,
+                    module
+                )
+            } finally {
+                // A factory that threw runs again on the next require
+                rec.initializing = undefined
+                this.requireStack.pop()
+            }
             const raw = (module.exports ?? exports) as any
             rec.exports = raw
             // Normalize default-only exports, so callers can do c('X')() when the module exported default
@@ -91,7 +143,12 @@ export class ModuleRegistry {
                     : raw
             rec.initialized = true
         }
-        return (rec.normalized !== undefined ? rec.normalized : rec.exports) as T
+        return rec.normalized !== undefined ? rec.normalized : rec.exports
+    }
+
+    // require() with the exports typed by hand, for names the map doesn't know or gets wrong
+    requireAs<T>(name: string): T {
+        return this.require(name) as T
     }
 }
 
@@ -136,45 +193,123 @@ export function makeFactoryFromFunctionExpression(fnExprSource: string): Factory
     }
 }
 
-// Very simple extractor: tries to find the first top-level "(function(" and take until the matching closing brace followed by ")".
-export function extractFunctionExpression(raw: string): string {
-    let startIdx = raw.indexOf('(function')
-    if (startIdx === -1) {
-        // Some module formats may be '__d(function(...) { ... })' (no leading '(' before function)
-        const dIdx = raw.indexOf('__d(')
-        if (dIdx !== -1) {
-            const fnIdx = raw.indexOf('function', dIdx)
-            if (fnIdx !== -1) {
-                const between = raw.slice(dIdx + '__d('.length, fnIdx)
-                if (/^\s*$/.test(between)) {
-                    startIdx = fnIdx
-                }
-            }
+function isIdentChar(ch: string | undefined): boolean {
+    return !!ch && /[\w$]/.test(ch)
+}
+
+// 1-based line, 0-based column of `idx`, like parse diagnostics
+function positionOf(raw: string, idx: number): string {
+    let line = 1
+    let lineStart = 0
+    for (let i = raw.indexOf('\n'); i !== -1 && i < idx; i = raw.indexOf('\n', i + 1)) {
+        line++
+        lineStart = i + 1
+    }
+    return `line ${line}, column ${idx - lineStart}`
+}
+
+const BRACKET_CHARS = codeChars('([{}])')
+const EXPRESSION_END_CHARS = codeChars('([{}]),;')
+// Where a function expression can start: a parameter list, or a word (function, async, x => ...)
+const FUNCTION_START_CHARS = codeChars('(abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_$')
+
+// Index of the bracket closing the one at `openIdx`, skipping strings, comments and regexes
+function matchingBracket(raw: string, openIdx: number): number {
+    let depth = 0
+    return scanCode(raw, openIdx, BRACKET_CHARS, (ch) => {
+        if (ch === '(' || ch === '[' || ch === '{') depth++
+        else if (ch === ')' || ch === ']' || ch === '}') return --depth === 0
+        return false
+    })
+}
+
+// Index of a function's `{`, or of an arrow function's expression body
+type FunctionBody = { body: number; arrow: boolean }
+
+// Body of the function expression starting at `idx`, or null when none starts there: function,
+// async function, (params) => and x => (async or not)
+function functionBodyAt(raw: string, idx: number): FunctionBody | null {
+    let i = idx
+    if (raw.startsWith('async', i) && !isIdentChar(raw[i + 'async'.length])) {
+        i = skipWhitespace(raw, i + 'async'.length)
+    }
+    if (raw.startsWith('function', i) && !isIdentChar(raw[i + 'function'.length])) {
+        const head = /^function\s*\*?\s*[\w$]*\s*/.exec(raw.slice(i, i + 200))!
+        const open = i + head[0].length
+        if (raw[open] !== '(') {
+            throw new Error(`No parameter list found for the function at ${positionOf(raw, idx)}`)
         }
-        if (startIdx === -1) {
-            startIdx = raw.indexOf('function')
+        const close = matchingBracket(raw, open)
+        if (close === -1) {
+            throw new Error(
+                `Unterminated parameter list of the function at ${positionOf(raw, idx)}`
+            )
+        }
+        const body = skipWhitespace(raw, close + 1)
+        if (raw[body] !== '{') {
+            throw new Error(
+                `No function body start found for the function at ${positionOf(raw, idx)}`
+            )
         }
+        return { body, arrow: false }
     }
-    if (startIdx === -1) throw new Error('No function expression wrapper found')
-    const openParenIdx = raw.indexOf('{', startIdx)
-    if (openParenIdx === -1) throw new Error('No function body start found')
-    let depth = 0
-    let endIdx = -1
-    for (let i = openParenIdx; i < raw.length; i++) {
-        const ch = raw[i]
-        if (ch === '{') depth++
-        else if (ch === '}') {
-            depth--
-            if (depth === 0) {
-                endIdx = i
-                break
-            }
+
+    let paramsEnd: number
+    if (raw[i] === '(') {
+        const close = matchingBracket(raw, i)
+        if (close === -1) return null
+        paramsEnd = close + 1
+    } else {
+        const param = /^[A-Za-z_$][\w$]*/.exec(raw.slice(i, i + 200))
+        if (!param) return null
+        paramsEnd = i + param[0].length
+    }
+    const arrowIdx = skipWhitespace(raw, paramsEnd)
+    if (!raw.startsWith('=>', arrowIdx)) return null
+    return { body: skipWhitespace(raw, arrowIdx + '=>'.length), arrow: true }
+}
+
+// Returns the first function expression of `raw` (a module file, or any source holding the
+// factory), e.g. the factory of __d("X", [], (function (t, n, r) {...}), 1). Strings, template
+// literals, regexes and comments are skipped, so braces inside them don't end the body early.
+export function extractFunctionExpression(raw: string): string {
+    let start = -1
+    let found: FunctionBody | null = null
+    scanCode(raw, 0, FUNCTION_START_CHARS, (ch, i) => {
+        if (isIdentChar(raw[i - 1])) return false
+        if (ch === '(') {
+            // The parentheses of a call (foo(...), __d(...)) are not a parameter list
+            let j = i - 1
+            while (j >= 0 && /\s/.test(raw[j])) j--
+            if (isIdentChar(raw[j]) || raw[j] === ')' || raw[j] === ']') return false
+        }
+        found = functionBodyAt(raw, i)
+        if (found) start = i
+        return !!found
+    })
+    if (!found) throw new Error('No function expression wrapper found')
+    // Narrowed to null by TypeScript: it is only assigned in the callback
+    const { body, arrow } = found as FunctionBody
+
+    let end: number
+    if (!arrow || raw[body] === '{') {
+        end = matchingBracket(raw, body)
+        if (end === -1) {
+            throw new Error(
+                `No matching function body end found for the function at ${positionOf(raw, start)} (body starts at ${positionOf(raw, body)})`
+            )
         }
+        end++
+    } else {
+        // Expression body: up to the comma, semicolon or bracket that ends it
+        let depth = 0
+        end = scanCode(raw, body, EXPRESSION_END_CHARS, (ch) => {
+            if (ch === '(' || ch === '[' || ch === '{') depth++
+            else if (ch === ')' || ch === ']' || ch === '}') return depth-- === 0
+            else if (ch === ',' || ch === ';') return depth === 0
+            return false
+        })
+        if (end === -1) end = raw.length
     }
-    if (endIdx === -1) throw new Error('No matching function body end found')
-    // We want the entire function expression from "function(" up to "}".
-    // Back up to the start of "function"
-    const funcKeywordIdx = raw.lastIndexOf('function', openParenIdx)
-    const fnExpr = raw.slice(funcKeywordIdx, endIdx + 1).trim()
-    return fnExpr
+    return raw.slice(start, end).trim()
 }
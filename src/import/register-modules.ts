@@ -1,6 +1,10 @@
-import { promises as fs } from 'fs'
+import { promises as fs, readFileSync } from 'fs'
 import path from 'path'
+import { MANIFEST_FILE_NAME, readManifest } from '../export/manifest'
+import { parseBundle } from '../export/parser'
+import { fileExists } from '../export/util'
 import {
+    type Factory,
     ModuleRegistry,
     extractFunctionExpression,
     makeFactoryFromFunctionExpression
@@ -8,7 +12,22 @@ import {
 
 export type ModuleSpec = { name: string; path: string }
 
-export async function registerAll(registry: ModuleRegistry, modules: ModuleSpec[]) {
+// Builds the ModuleSpec[] list from a manifest.json written by exportModules()/wa-export.
+// `manifestPath` may point to the manifest file or to the export directory containing it.
+export async function modulesFromManifest(manifestPath: string): Promise<ModuleSpec[]> {
+    const { manifest, manifestFile } = await readManifest(manifestPath)
+    const baseDir = path.dirname(manifestFile)
+    return manifest.modules
+        .filter((m) => m.name)
+        .map((m) => ({ name: m.name, path: path.resolve(baseDir, m.file) }))
+}
+
+export async function registerManifest(registry: ModuleRegistry<any>, manifestPath: string) {
+    await registerAll(registry, await modulesFromManifest(manifestPath))
+}
+
+// Globals and synthetic modules (Promise, asyncToGeneratorRuntime, ...) the exported modules expect
+async function prepareRuntime(registry: ModuleRegistry<any>) {
     // Prepare global environment expected by browser-targeted bundle
     const g: any = globalThis as any
     if (!g.self) {
@@ -154,6 +173,21 @@ export async function registerAll(registry: ModuleRegistry, modules: ModuleSpec[
             globals.babelHelpers = shim
         }
     })
+}
+
+function compileModule(name: string, file: string, raw: string): Factory {
+    // Exported files hold the module's __d(...) call; anything else is searched for a function
+    const [parsed] = parseBundle(raw, [])
+    try {
+        const fnExpr = parsed?.factory?.source ?? extractFunctionExpression(raw)
+        return makeFactoryFromFunctionExpression(fnExpr)
+    } catch (e) {
+        throw new Error(`Failed to load module ${name} at ${file}: ${e.message}`)
+    }
+}
+
+export async function registerAll(registry: ModuleRegistry<any>, modules: ModuleSpec[]) {
+    await prepareRuntime(registry)
 
     for (const entry of modules) {
         const full = entry.path
@@ -163,8 +197,117 @@ export async function registerAll(registry: ModuleRegistry, modules: ModuleSpec[
         } catch (e) {
             throw new Error(`Failed to read module ${entry.name} at ${full}: ${e.message}`)
         }
-        const fnExpr = extractFunctionExpression(raw)
-        const factory = makeFactoryFromFunctionExpression(fnExpr)
-        registry.register(entry.name, factory)
+        registry.register(entry.name, compileModule(entry.name, full, raw))
+    }
+}
+
+// Which copy of a module found more than once in a directory is registered: the first or last
+// one in manifest (or path) order, or bundles in priority order, each given as its source (bundle
+// URL or path, as in the manifest) or its subfolder. Bundles that aren't listed come last.
+export type DirectoryPrecedence = 'first-wins' | 'last-wins' | string[]
+
+export type RegisterDirectoryOptions = {
+    // Default: 'first-wins'
+    precedence?: DirectoryPrecedence
+}
+
+// A module file of an export directory
+export type DirectoryModule = ModuleSpec & {
+    // Bundle the module came from, per the manifest; the subfolder without one
+    source: string
+    // Top-level subfolder of the export directory the file is in ('' for files at the top)
+    subdir: string
+}
+
+async function listModuleFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    const out: string[] = []
+    for (const entry of entries) {
+        const full = path.join(dir, entry.name)
+        if (entry.isDirectory()) out.push(...(await listModuleFiles(full)))
+        else if (entry.isFile() && entry.name.endsWith('.js')) out.push(full)
+    }
+    return out
+}
+
+function topSubdir(dir: string, file: string): string {
+    const parts = path.relative(dir, file).split(path.sep)
+    return parts.length > 1 ? parts[0] : ''
+}
+
+// Every module file of an export directory (per-bundle and --merge-common-names subfolders
+// included), read from its manifest.json when there is one. Without a manifest, module names are
+// taken from the file names; modules exported without a name (module_N.js) can't be told apart
+// then and are left out.
+export async function modulesFromDirectory(dir: string): Promise<DirectoryModule[]> {
+    const root = path.resolve(process.cwd(), dir)
+    if (await fileExists(path.join(root, MANIFEST_FILE_NAME))) {
+        const { manifest } = await readManifest(root)
+        return manifest.modules
+            .filter((m) => m.name)
+            .map((m) => {
+                const file = path.resolve(root, m.file)
+                return { name: m.name, path: file, source: m.source, subdir: topSubdir(root, file) }
+            })
+    }
+
+    const out: DirectoryModule[] = []
+    for (const file of await listModuleFiles(root)) {
+        const name = path.basename(file, '.js')
+        if (/^module_\d+$/.test(name)) continue
+        const subdir = topSubdir(root, file)
+        out.push({ name, path: file, source: subdir, subdir })
+    }
+    return out
+}
+
+function pickModules(
+    modules: DirectoryModule[],
+    precedence: DirectoryPrecedence
+): DirectoryModule[] {
+    const rank = (m: DirectoryModule) => {
+        if (!Array.isArray(precedence)) return 0
+        const i = precedence.findIndex((p) => p === m.source || p === m.subdir)
+        return i === -1 ? precedence.length : i
+    }
+    const picked = new Map<string, DirectoryModule>()
+    for (const m of modules) {
+        const current = picked.get(m.name)
+        const wins =
+            !current ||
+            (precedence === 'last-wins' ? rank(m) <= rank(current) : rank(m) < rank(current))
+        if (wins) picked.set(m.name, m)
+    }
+    return [...picked.values()]
+}
+
+// Registers every module of an export directory without reading it: a module file is only read
+// and compiled when require() first reaches it. Returns the registered modules.
+export async function registerDirectory(
+    registry: ModuleRegistry<any>,
+    dir: string,
+    options?: RegisterDirectoryOptions
+): Promise<DirectoryModule[]> {
+    const precedence = options?.precedence ?? 'first-wins'
+    if (!Array.isArray(precedence) && precedence !== 'first-wins' && precedence !== 'last-wins') {
+        throw new Error(
+            `Invalid precedence value: ${String(precedence)}. Use first-wins, last-wins or a list of bundles`
+        )
+    }
+
+    await prepareRuntime(registry)
+    const modules = pickModules(await modulesFromDirectory(dir), precedence)
+    for (const m of modules) {
+        registry.registerLazy(m.name, () => {
+            let raw: string
+            try {
+                raw = readFileSync(m.path, 'utf8')
+            } catch (e) {
+                throw new Error(`Failed to read module ${m.name} at ${m.path}: ${e.message}`)
+            }
+            return compileModule(m.name, m.path, raw)
+        })
     }
+    return modules
 }